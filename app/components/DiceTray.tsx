@@ -11,6 +11,9 @@ interface DiceTrayProps {
   onLetterClick: (letter: Letter) => void;
   draggingLetter: Letter | null;
   selectedLetterId: string | null;
+  compact?: boolean; // Smaller dice, for two boards on one screen
+  onReroll?: (letter: Letter) => void; // Shows a re-roll button on each die that can be re-rolled
+  rerollLabel?: string; // Tooltip for the re-roll buttons, e.g. with the penalty
 }
 
 export default function DiceTray({
@@ -20,6 +23,9 @@ export default function DiceTray({
   onLetterClick,
   draggingLetter,
   selectedLetterId,
+  compact,
+  onReroll,
+  rerollLabel = 'Re-roll this die',
 }: DiceTrayProps) {
   const unplacedLetters = letters.filter(l => l.position === null);
 
@@ -29,7 +35,7 @@ export default function DiceTray({
       animate={{ opacity: 1, y: 0 }}
       className="w-full p-4 rounded-2xl bg-gradient-to-br from-slate-800/60 to-slate-900/60 backdrop-blur-sm border border-slate-700/50"
     >
-      <div className="flex flex-wrap gap-3 justify-center min-h-[60px]">
+      <div className={`flex flex-wrap justify-center ${compact ? 'gap-2 min-h-[44px]' : 'gap-3 min-h-[60px]'}`}>
         {unplacedLetters.length === 0 ? (
           <motion.p
             initial={{ opacity: 0 }}
@@ -50,6 +56,7 @@ export default function DiceTray({
                 stiffness: 300,
                 damping: 20,
               }}
+              className="relative"
             >
               <LetterDie
                 letter={letter}
@@ -59,7 +66,18 @@ export default function DiceTray({
                 onDragStart={onDragStart}
                 onDragEnd={onDragEnd}
                 onClick={() => onLetterClick(letter)}
+                compact={compact}
               />
+              {onReroll && letter.die !== null && (
+                <button
+                  onClick={() => onReroll(letter)}
+                  title={rerollLabel}
+                  aria-label={`${rerollLabel}: ${letter.char}`}
+                  className="absolute -top-2 -right-2 w-6 h-6 rounded-full text-xs text-slate-200 bg-slate-700 hover:bg-amber-600 border border-slate-500/60 shadow transition-colors"
+                >
+                  ↻
+                </button>
+              )}
             </motion.div>
           ))
         )}
@@ -1,16 +1,38 @@
 'use client';
 
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import {
+  DEFAULT_HAND_SIZE,
+  DEFAULT_REROLL_PENALTY_SECONDS,
   GameState,
+  HAND_SIZES,
   Letter,
+  PlayMode,
+  boardSolverSize,
+  createClassicState,
   createInitialState,
+  createStateFromLetters,
+  expandGrid,
+  fitPlacements,
   placeLetter,
+  refreshWords,
+  lastPlacedLetter,
   removeLetter,
+  rerollDie,
+  setBoard,
   shuffleUnplacedLetters,
-  solvePuzzle,
+  validateBoard,
 } from '../lib/gameState';
+import { type Difficulty, type DifficultyRating, DIFFICULTIES, DIFFICULTY_LABELS } from '../lib/difficulty';
+import {
+  type SolveJob,
+  dealInWorker,
+  enumerateSolutionsInWorker,
+  rateInWorker,
+  solveExactInWorker,
+  solveInWorker,
+} from '../lib/solverClient';
 import {
   GameStats,
   loadStats,
@@ -19,18 +41,92 @@ import {
   trackLetterPlaced,
   trackHintUsed,
   trackSolveUsed,
+  trackConcede,
+  trackRerollUsed,
+  trackScore,
+  trackCountdownStarted,
+  trackCountdownWon,
+  trackBlitzSession,
   startSessionTimer,
   endSession,
 } from '../lib/stats';
+import {
+  DailyResult,
+  createDailyState,
+  getDailyDate,
+  getDailyResult,
+  saveDailyResult,
+} from '../lib/daily';
+import { decodePuzzle, encodeGameState } from '../lib/puzzleCode';
+import { decodeMatchCode } from '../lib/match';
+import { type DictionaryInfo, setActiveDictionary } from '../lib/dictionary';
+import {
+  DEFAULT_LEXICON_ID,
+  loadActiveLexiconId,
+  resolveDictionary,
+  saveActiveLexiconId,
+} from '../lib/lexiconStore';
 import GameGrid from './GameGrid';
 import DiceTray from './DiceTray';
-import WinModal from './WinModal';
+import WinModal, { type Alternates } from './WinModal';
 import StatsModal from './StatsModal';
 import MilestoneToast from './MilestoneToast';
 import IntroModal from './IntroModal';
+import SettingsModal from './SettingsModal';
+import ReplayViewer from './ReplayViewer';
+import MatchView from './MatchView';
+import { type GameSettings, boardFromSettings, loadSettings, updateSettings } from '../lib/settings';
+import { boardForHand, solverGridSize } from '../lib/board';
+import {
+  type GameHistory,
+  canRedo,
+  canUndo,
+  createHistory,
+  mapHistory,
+  pushState,
+  redo,
+  replacePresent,
+  undo,
+} from '../lib/history';
+import { type ScoreBreakdown, scoreGame } from '../lib/scoring';
+import { isLowOnTime, isTimedMode, timeRemaining } from '../lib/challenge';
+import { findTrayWords } from '../lib/zen';
+import { type SavedGame, clearSavedGame, loadSavedGame, saveGame } from '../lib/savedGame';
+import { type ReplayAction, type ReplayLog, createReplayLog, recordAction } from '../lib/replay';
+
+const DIFFICULTY_COLORS: Record<Difficulty, string> = {
+  easy: 'bg-green-500/20 text-green-400 border-green-500/30',
+  medium: 'bg-blue-500/20 text-blue-400 border-blue-500/30',
+  hard: 'bg-amber-500/20 text-amber-400 border-amber-500/30',
+  expert: 'bg-red-500/20 text-red-400 border-red-500/30',
+};
+
+interface GameProps {
+  puzzleCode?: string | null; // Share code from the URL; deals its letters instead of rolling
+  matchCode?: string | null; // Head-to-head match another tab started; opens straight into it
+  matchName?: string | null; // This tab's player in that match
+}
+
+export default function Game({ puzzleCode, matchCode, matchName }: GameProps) {
+  // Every move is kept so it can be undone; a new deal starts a fresh history
+  const [history, setHistory] = useState<GameHistory | null>(null);
+  const gameState = history?.present ?? null;
+
+  // Every action since the deal, for the replay viewer
+  const replayRef = useRef<ReplayLog | null>(null);
+  const [replayLog, setReplayLog] = useState<ReplayLog | null>(null);
+
+  const record = useCallback((action: ReplayAction) => {
+    if (replayRef.current) replayRef.current = recordAction(replayRef.current, action);
+  }, []);
 
-export default function Game() {
-  const [gameState, setGameState] = useState<GameState | null>(null);
+  // Record a move so it can be undone and replayed; solves record themselves once they finish
+  // An auto-expanding grid grows here, after the move, so replays grow it the same way
+  const commitState = useCallback((state: GameState, action?: ReplayAction) => {
+    const expanded = expandGrid(state);
+    setHistory(h => h ? pushState(h, expanded) : createHistory(expanded));
+    if (action) record(action);
+  }, [record]);
   const [draggingLetter, setDraggingLetter] = useState<Letter | null>(null);
   const [selectedLetterId, setSelectedLetterId] = useState<string | null>(null);
   const [movingLetterId, setMovingLetterId] = useState<string | null>(null);
@@ -43,36 +139,219 @@ export default function Game() {
   const [solveError, setSolveError] = useState<string | null>(null);
   const [solveMessage, setSolveMessage] = useState<string | null>(null);
   const [autoSolved, setAutoSolved] = useState(false); // Track if puzzle was auto-solved
+  const [concedeOutcome, setConcedeOutcome] = useState<'correct' | 'wrong' | 'undecided' | null>(null);
   const solveTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const solveJobRef = useRef<SolveJob<unknown> | null>(null);
+  const [solveProgress, setSolveProgress] = useState<string | null>(null);
+
+  // Every other solution to a won roll, listed in the background for the win screen
+  const [alternates, setAlternates] = useState<Alternates>({ solutions: [], status: 'searching' });
+  const alternatesJobRef = useRef<SolveJob<unknown> | null>(null);
   
   // Stats tracking
   const [stats, setStats] = useState<GameStats | null>(null);
   const [showStatsModal, setShowStatsModal] = useState(false);
   const [currentMilestone, setCurrentMilestone] = useState<string | null>(null);
-  const [hintsUsedThisGame, setHintsUsedThisGame] = useState(false);
+  const [shufflesThisGame, setShufflesThisGame] = useState(0); // Shaking the tray is the hint
+  const [winScore, setWinScore] = useState<{ score: ScoreBreakdown; isHighScore: boolean } | null>(null);
+
+  // Daily puzzle
+  const [mode, setMode] = useState<PlayMode>(
+    () => (puzzleCode && decodePuzzle(puzzleCode) ? 'shared' : 'free')
+  );
+  const [dailyDate, setDailyDate] = useState<string | null>(null);
+  const [dailyResult, setDailyResult] = useState<DailyResult | null>(null);
+
+  // Timed modes - the limit is fixed when a countdown game or Blitz session is dealt
+  const [timeLimit, setTimeLimit] = useState<number | null>(null);
+  const [isTimeUp, setIsTimeUp] = useState(false);
+  const [blitzSolved, setBlitzSolved] = useState(0); // Boards won so far this Blitz session
+  const [shareMessage, setShareMessage] = useState<string | null>(null);
+
+  // Difficulty - free play can ask for a band (null deals any solvable roll); every board gets a label
+  const [difficulty, setDifficulty] = useState<Difficulty | null>(null);
+  const [rating, setRating] = useState<DifficultyRating | null>(null);
+  const [isUnverified, setIsUnverified] = useState(false); // Dealt without a known solution
+  const ratingJobRef = useRef<SolveJob<unknown> | null>(null);
+
+  // Word list - validation and the solver share whichever is active
+  // Null until the first list has downloaded; nothing is dealt before then
+  const [lexicon, setLexicon] = useState<DictionaryInfo | null>(null);
+  const [lexiconProgress, setLexiconProgress] = useState<number | null>(null);
+  const [lexiconError, setLexiconError] = useState<string | null>(null);
+  const [dealError, setDealError] = useState<string | null>(null); // The daily roll couldn't be dealt
+  const [showSettingsModal, setShowSettingsModal] = useState(false);
+  const [settings, setSettings] = useState<GameSettings | null>(null);
+
+  // Head-to-head match, played over the top of the solo game (which pauses meanwhile)
+  const [showMatch, setShowMatch] = useState(() => !!(matchCode && decodeMatchCode(matchCode)));
+  const [joinCode, setJoinCode] = useState(matchCode ?? null);
+
+  // A game left unfinished last time, offered before anything new is dealt
+  const [resumeOffer, setResumeOffer] = useState<SavedGame | null>(null);
+
+  const applyLexicon = useCallback(async (id: string) => {
+    setLexiconError(null);
+    try {
+      const dictionary = await resolveDictionary(id, setLexiconProgress);
+      setActiveDictionary(dictionary);
+      setLexicon(dictionary.info);
+      setHistory(h => h && mapHistory(h, state => refreshWords(state, dictionary)));
+      return true;
+    } catch (error) {
+      setLexiconError(error instanceof Error ? error.message : 'Failed to load word list');
+      return false;
+    } finally {
+      setLexiconProgress(null);
+    }
+  }, []);
+
+  const handleSelectLexicon = useCallback((id: string) => {
+    saveActiveLexiconId(id).catch(() => {
+      // Selection still applies for this session
+    });
+    applyLexicon(id);
+  }, [applyLexicon]);
+
+  // Label the board with its difficulty; rolls dealt for a band arrive already rated
+  const rateBoard = useCallback((state: GameState, known?: DifficultyRating) => {
+    ratingJobRef.current?.cancel();
+    setRating(known ?? null);
+    if (known) return;
+
+    const job = rateInWorker(state.letters, { gridSize: boardSolverSize(state) });
+    ratingJobRef.current = job;
+    job.result
+      .then(result => {
+        if (result) setRating(result);
+      })
+      .catch(() => {
+        // The board just goes unlabelled
+      });
+  }, []);
+
+  // Roll the dice for a mode - daily and timed games stay out of the free-play stats, and Zen
+  // games out of the stats altogether
+  // Daily puzzles are always the standard hand; shared ones have as many letters as their code
+  // The next roll of a Blitz session keeps the session's clock running
+  const dealGame = useCallback((nextMode: PlayMode, band: Difficulty | null = null, continueSession = false) => {
+    setIsRolling(true);
+    setDealError(null);
+    ratingJobRef.current?.cancel();
+    setRating(null);
+    setIsUnverified(false);
+    // Settings are read from storage, so a deal straight after loading still has them
+    const savedSettings = loadSettings();
+    const { handSize } = savedSettings;
+    const board = boardFromSettings(savedSettings);
+    const onBoard = (state: GameState) => setBoard(state, boardForHand(board, state.letters.length));
+    // Free play, Zen and the timed modes check the roll has a solution while the dice are still rolling
+    const dealBoard = boardForHand(board, handSize);
+    const deal = nextMode === 'free' || nextMode === 'zen' || isTimedMode(nextMode)
+      ? dealInWorker({
+        difficulty: band ?? undefined,
+        handSize,
+        gridSize: solverGridSize(dealBoard.size, dealBoard.autoExpand, handSize),
+      })
+      : null;
+    setTimeout(async () => {
+      const shared = nextMode === 'shared' && puzzleCode ? decodePuzzle(puzzleCode) : null;
+
+      if (shared) {
+        const state = onBoard(createStateFromLetters(shared.letters, shared.positions));
+        setHistory(createHistory(state));
+        replayRef.current = createReplayLog(state, nextMode);
+        setDailyDate(null);
+        setDailyResult(null);
+        // A shared full solution is shown like an auto-solve rather than counted as a win
+        if (state.isWon) {
+          setAutoSolved(true);
+          setTimer(0);
+          setIsRolling(false);
+          return;
+        }
+
+        rateBoard(state);
+        const { stats: updatedStats } = trackGameStarted(state.letters.length);
+        setStats(updatedStats);
+      } else if (nextMode === 'classic') {
+        const state = onBoard(createClassicState(undefined, handSize));
+        setHistory(createHistory(state));
+        replayRef.current = createReplayLog(state, nextMode);
+        rateBoard(state);
+        setDailyDate(null);
+        setDailyResult(null);
+
+        const { stats: updatedStats } = trackGameStarted(handSize);
+        setStats(updatedStats);
+      } else if (nextMode === 'daily') {
+        const date = getDailyDate();
+        let daily: GameState;
+        try {
+          daily = await createDailyState(date);
+        } catch (error) {
+          setDealError(error instanceof Error ? error.message : "Couldn't deal today's puzzle");
+          setIsRolling(false);
+          return;
+        }
+        const state = onBoard(daily);
+        setHistory(createHistory(state));
+        replayRef.current = createReplayLog(state, nextMode);
+        rateBoard(state);
+        setDailyDate(date);
+        setDailyResult(getDailyResult(date));
+      } else {
+        const dealt = await deal?.result.catch(() => null);
+        const state = onBoard(dealt?.state ?? createInitialState(undefined, handSize));
+        setHistory(createHistory(state));
+        replayRef.current = createReplayLog(state, nextMode);
+        rateBoard(state, dealt?.rating);
+        setIsUnverified(!dealt || dealt.source === 'unverified');
+        setDailyDate(null);
+        setDailyResult(null);
+
+        // Track game started - a Blitz session is recorded when its clock runs out
+        if (nextMode === 'countdown') {
+          setStats(trackCountdownStarted(savedSettings.timeLimitSeconds));
+        } else if (nextMode === 'free') {
+          const { stats: updatedStats } = trackGameStarted(state.letters.length);
+          setStats(updatedStats);
+        }
+      }
+      // A continued session's clock was never stopped, and may have run out during the roll
+      if (!continueSession) {
+        setTimer(0);
+        setTimeLimit(isTimedMode(nextMode) ? savedSettings.timeLimitSeconds : null);
+        setIsTimerRunning(nextMode !== 'zen');
+      }
+      setIsRolling(false);
+      setShufflesThisGame(0);
+      setWinScore(null);
+    }, 1500);
+  }, [puzzleCode, rateBoard]);
 
   // Initialize game and stats
   useEffect(() => {
     // Load stats and start session timer
     const initialStats = loadStats();
     setStats(initialStats);
+    setSettings(loadSettings());
     startSessionTimer();
     
-    const initGame = () => {
-      setIsRolling(true);
-      setTimeout(() => {
-        setGameState(createInitialState());
-        setTimer(0);
-        setIsTimerRunning(true);
-        setIsRolling(false);
-        setHintsUsedThisGame(false);
-        
-        // Track game started
-        const { stats: updatedStats } = trackGameStarted();
-        setStats(updatedStats);
-      }, 1500);
-    };
-    initGame();
+    // Restore the saved word list, then offer the unfinished game or deal once it has loaded
+    // A shared link always opens its own board
+    const initialMode = puzzleCode && decodePuzzle(puzzleCode) ? 'shared' : 'free';
+    loadActiveLexiconId()
+      .then(applyLexicon)
+      .then(loaded => {
+        if (!loaded) return;
+        const saved = initialMode === 'shared' ? null : loadSavedGame();
+        if (saved) {
+          setResumeOffer(saved);
+        } else {
+          dealGame(initialMode);
+        }
+      });
     
     // Track session end on page unload
     const handleUnload = () => endSession();
@@ -81,18 +360,187 @@ export default function Game() {
       window.removeEventListener('beforeunload', handleUnload);
       endSession();
     };
-  }, []);
+  }, [applyLexicon, dealGame, puzzleCode]);
+
+  // Pick the unfinished game back up where it was left
+  const handleResume = useCallback(() => {
+    if (!resumeOffer) return;
+
+    const { history: saved, mode: savedMode, dailyDate: savedDate } = resumeOffer;
+    setHistory(saved);
+    replayRef.current = createReplayLog(saved.present, savedMode);
+    setMode(savedMode);
+    setDifficulty(resumeOffer.difficulty);
+    setDailyDate(savedDate);
+    setDailyResult(savedDate ? getDailyResult(savedDate) : null);
+    setTimer(resumeOffer.timer);
+    setShufflesThisGame(resumeOffer.shuffles);
+    setWinScore(null);
+    rateBoard(saved.present);
+    setResumeOffer(null);
+    setIsTimerRunning(savedMode !== 'zen');
+    setIsRolling(false);
+  }, [resumeOffer, rateBoard]);
+
+  const handleDiscardSaved = useCallback(() => {
+    clearSavedGame();
+    setResumeOffer(null);
+    dealGame('free');
+  }, [dealGame]);
+
+  // The clock ticks every second, far more often than the game is worth re-saving, so saves
+  // read it from here
+  const timerRef = useRef(0);
+  useEffect(() => {
+    timerRef.current = timer;
+  }, [timer]);
+
+  // Save the game in progress; a finished board has nothing left to resume
+  const saveProgress = useCallback(() => {
+    if (!history || isRolling || isSolving) return;
 
-  // Timer
+    // Timed games can't be paused, so there's nothing to resume
+    const isOver = history.present.isWon || autoSolved || concedeOutcome === 'correct' || concedeOutcome === 'wrong';
+    if (isOver || isTimedMode(mode)) {
+      clearSavedGame();
+      return;
+    }
+    saveGame({
+      mode,
+      dailyDate,
+      timer: timerRef.current,
+      shuffles: shufflesThisGame,
+      difficulty: mode === 'free' ? difficulty : null,
+      history,
+    });
+  }, [history, isRolling, isSolving, autoSolved, concedeOutcome, mode, dailyDate, shufflesThisGame, difficulty]);
+
+  // After every move, and with the time so far whenever the page is hidden or closed
+  useEffect(() => {
+    saveProgress();
+    const handleHide = () => {
+      if (document.visibilityState === 'hidden') saveProgress();
+    };
+    document.addEventListener('visibilitychange', handleHide);
+    window.addEventListener('pagehide', saveProgress);
+    return () => {
+      document.removeEventListener('visibilitychange', handleHide);
+      window.removeEventListener('pagehide', saveProgress);
+    };
+  }, [saveProgress]);
+
+  // Retry the first download after a network failure
+  const handleRetryLexicon = useCallback(async () => {
+    const loaded = await applyLexicon(await loadActiveLexiconId());
+    if (loaded) dealGame(mode, difficulty);
+  }, [applyLexicon, dealGame, mode, difficulty]);
+
+  // Try the daily deal again after the word list or the solver failed
+  const handleRetryDeal = useCallback(() => {
+    dealGame(mode, difficulty);
+  }, [dealGame, mode, difficulty]);
+
+  // Timer - a win stops the clock, except in Blitz, where it keeps running while the next
+  // roll is dealt
+  const isClockStopped = !!gameState?.isWon && mode !== 'blitz';
   useEffect(() => {
-    if (!isTimerRunning || gameState?.isWon) return;
+    if (!isTimerRunning || isClockStopped || showMatch) return;
 
     const interval = setInterval(() => {
       setTimer((t) => t + 1);
     }, 1000);
 
     return () => clearInterval(interval);
-  }, [isTimerRunning, gameState?.isWon]);
+  }, [isTimerRunning, isClockStopped, showMatch]);
+
+  // Out of time: a countdown game is lost and a Blitz session is over
+  const handleTimeUp = useCallback(() => {
+    if (timeLimit === null) return;
+    setIsTimerRunning(false);
+    setIsTimeUp(true);
+    setSelectedLetterId(null);
+    setMovingLetterId(null);
+    if (mode === 'blitz') setStats(trackBlitzSession(timeLimit, blitzSolved));
+  }, [timeLimit, mode, blitzSolved]);
+
+  useEffect(() => {
+    if (timeLimit === null || !isTimerRunning || isClockStopped || showMatch) return;
+
+    const timeout = setTimeout(handleTimeUp, timeRemaining(timeLimit, timer) * 1000);
+    return () => clearTimeout(timeout);
+  }, [timeLimit, timer, isTimerRunning, isClockStopped, showMatch, handleTimeUp]);
+
+  const findAlternates = useCallback((state: GameState) => {
+    alternatesJobRef.current?.cancel();
+    setAlternates({ solutions: [], status: 'searching' });
+
+    const job = enumerateSolutionsInWorker(state.letters, {
+      gridSize: boardSolverSize(state),
+      onSolution: solution => setAlternates(prev => ({ ...prev, solutions: [...prev.solutions, solution] })),
+    });
+    alternatesJobRef.current = job;
+    job.result
+      .then(result => {
+        if (result) setAlternates({ solutions: result.solutions, status: result.status });
+      })
+      .catch(() => {
+        // Keep whatever arrived before the worker failed
+        setAlternates(prev => ({ ...prev, status: 'timeout' }));
+      });
+  }, []);
+
+  // Record a win against the stats store for the current mode
+  const recordWin = useCallback((won: GameState) => {
+    // Blitz goes straight on to the next roll on the same clock, which keeps running while
+    // the dice roll - the board is out of reach until the new one is dealt
+    if (mode === 'blitz') {
+      setBlitzSolved(n => n + 1);
+      dealGame('blitz', null, true);
+      return;
+    }
+
+    setIsTimerRunning(false);
+
+    findAlternates(won);
+    if (mode === 'zen') return;
+
+    const score = scoreGame(won.words, { handSize: won.letters.length, time: timer, shuffles: shufflesThisGame });
+    const { stats: scoreStats, isHighScore } = trackScore(mode, score.total);
+    setStats(scoreStats);
+    setWinScore({ score, isHighScore });
+
+    if (mode === 'daily' && dailyDate) {
+      setDailyResult(saveDailyResult({
+        date: dailyDate,
+        seed: won.seed,
+        time: timer,
+        hintsUsed: shufflesThisGame > 0,
+        solved: true,
+      }));
+      return;
+    }
+
+    if (mode === 'countdown' && timeLimit !== null) {
+      setStats(trackCountdownWon(timeLimit, timer));
+      return;
+    }
+
+    const { stats: winStats, newMilestones } = trackGameWon(
+      timer,
+      shufflesThisGame > 0,
+      lexicon?.name ?? 'Unknown',
+      won.letters.length
+    );
+    setStats(winStats);
+    if (newMilestones.length > 0) {
+      setCurrentMilestone(newMilestones[0]);
+    }
+  }, [mode, dailyDate, timer, timeLimit, shufflesThisGame, lexicon, findAlternates, dealGame]);
+
+  // Zen games leave the stats alone
+  const countLetterPlaced = useCallback(() => {
+    if (mode !== 'zen') setStats(trackLetterPlaced());
+  }, [mode]);
 
   const handleDragStart = useCallback((e: React.DragEvent, letter: Letter) => {
     e.dataTransfer.setData('letterId', letter.id);
@@ -112,33 +560,27 @@ export default function Game() {
     if (!gameState || !draggingLetter) return;
 
     const newState = placeLetter(gameState, draggingLetter.id, row, col);
-    setGameState(newState);
+    if (newState === gameState) return; // Dropped onto another letter
+    commitState(newState, { type: draggingLetter.position ? 'move' : 'place', letterId: draggingLetter.id, row, col });
     setDraggingLetter(null);
     
-    // Track letter placement
-    const updatedStats = trackLetterPlaced();
-    setStats(updatedStats);
+    countLetterPlaced();
 
     if (newState.isWon) {
-      setIsTimerRunning(false);
-      // Track win
-      const { stats: winStats, newMilestones } = trackGameWon(timer, hintsUsedThisGame);
-      setStats(winStats);
-      if (newMilestones.length > 0) {
-        setCurrentMilestone(newMilestones[0]);
-      }
+      recordWin(newState);
     }
-  }, [gameState, draggingLetter, timer, hintsUsedThisGame]);
+  }, [gameState, draggingLetter, recordWin, countLetterPlaced, commitState]);
 
   // Find a good position to auto-place a letter
   const findBestPlacement = useCallback((state: GameState): { row: number; col: number } | null => {
     const grid = state.grid;
-    const GRID_SIZE = 8;
+    const rows = grid.length;
+    const cols = grid[0].length;
 
     // Find all placed letters
     const placedPositions: { row: number; col: number }[] = [];
-    for (let r = 0; r < GRID_SIZE; r++) {
-      for (let c = 0; c < GRID_SIZE; c++) {
+    for (let r = 0; r < rows; r++) {
+      for (let c = 0; c < cols; c++) {
         if (grid[r][c]) {
           placedPositions.push({ row: r, col: c });
         }
@@ -147,7 +589,7 @@ export default function Game() {
 
     // If no letters placed, start near center
     if (placedPositions.length === 0) {
-      return { row: 3, col: 3 };
+      return { row: Math.floor((rows - 1) / 2), col: Math.floor((cols - 1) / 2) };
     }
 
     // Find adjacent empty cells to existing letters (prefer horizontal/vertical neighbors)
@@ -164,8 +606,8 @@ export default function Game() {
         const newRow = pos.row + dir.dr;
         const newCol = pos.col + dir.dc;
         if (
-          newRow >= 0 && newRow < GRID_SIZE &&
-          newCol >= 0 && newCol < GRID_SIZE &&
+          newRow >= 0 && newRow < rows &&
+          newCol >= 0 && newCol < cols &&
           !grid[newRow][newCol]
         ) {
           // Check if we already have this cell
@@ -183,8 +625,8 @@ export default function Game() {
     }
 
     // Fallback: find any empty cell
-    for (let r = 0; r < GRID_SIZE; r++) {
-      for (let c = 0; c < GRID_SIZE; c++) {
+    for (let r = 0; r < rows; r++) {
+      for (let c = 0; c < cols; c++) {
         if (!grid[r][c]) {
           return { row: r, col: c };
         }
@@ -194,16 +636,50 @@ export default function Game() {
     return null;
   }, []);
 
-  // Keyboard input handler - type letters to place them, backspace to remove
+  // Step back and forth through this deal's moves - a win is final
+  const handleUndo = useCallback(() => {
+    if (!history || !canUndo(history) || isSolving || history.present.isWon) return;
+    setHistory(undo(history));
+    record({ type: 'undo' });
+    setSelectedLetterId(null);
+    setMovingLetterId(null);
+    setAutoSolved(false);
+  }, [history, isSolving, record]);
+
+  const handleRedo = useCallback(() => {
+    if (!history || !canRedo(history) || isSolving || history.present.isWon) return;
+    setHistory(redo(history));
+    record({ type: 'redo' });
+    setSelectedLetterId(null);
+    setMovingLetterId(null);
+    setAutoSolved(false);
+  }, [history, isSolving, record]);
+
+  // Keyboard input handler - type letters to place them, backspace to remove,
+  // Ctrl/Cmd+Z to undo and Ctrl/Cmd+Shift+Z (or Ctrl+Y) to redo
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
-      if (!gameState || isSolving || gameState.isWon) return;
+      if (!gameState || isSolving || isTimeUp || showMatch || gameState.isWon) return;
       
       // Ignore if user is typing in an input field
       if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) {
         return;
       }
 
+      if (e.ctrlKey || e.metaKey) {
+        const shortcut = e.key.toLowerCase();
+        if (shortcut === 'z') {
+          e.preventDefault();
+          if (e.shiftKey) handleRedo();
+          else handleUndo();
+        } else if (shortcut === 'y') {
+          e.preventDefault();
+          handleRedo();
+        }
+        // Leave other shortcuts (copy, reload...) to the browser
+        return;
+      }
+
       const key = e.key.toUpperCase();
       
       // Handle letter keys A-Z
@@ -219,36 +695,26 @@ export default function Game() {
           const position = findBestPlacement(gameState);
           if (position) {
             const newState = placeLetter(gameState, matchingLetter.id, position.row, position.col);
-            setGameState(newState);
+            commitState(newState, { type: 'place', letterId: matchingLetter.id, ...position });
             setSelectedLetterId(null);
             setMovingLetterId(null);
             
-            // Track letter placement
-            const updatedStats = trackLetterPlaced();
-            setStats(updatedStats);
+            countLetterPlaced();
             
             if (newState.isWon) {
-              setIsTimerRunning(false);
-              const { stats: winStats, newMilestones } = trackGameWon(timer, hintsUsedThisGame);
-              setStats(winStats);
-              if (newMilestones.length > 0) {
-                setCurrentMilestone(newMilestones[0]);
-              }
+              recordWin(newState);
             }
           }
         }
       }
       
-      // Handle Backspace - remove last placed letter
+      // Handle Backspace - remove the letter placed most recently
       if (e.key === 'Backspace') {
         e.preventDefault();
-        // Find the most recently placed letter (last one with a position)
-        const placedLetters = gameState.letters.filter((l) => l.position);
-        if (placedLetters.length > 0) {
-          // Remove the last placed letter
-          const lastPlaced = placedLetters[placedLetters.length - 1];
+        const lastPlaced = lastPlacedLetter(gameState);
+        if (lastPlaced) {
           const newState = removeLetter(gameState, lastPlaced.id);
-          setGameState(newState);
+          commitState(newState, { type: 'remove', letterId: lastPlaced.id });
           setAutoSolved(false);
         }
       }
@@ -256,7 +722,7 @@ export default function Game() {
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [gameState, isSolving, findBestPlacement, timer, hintsUsedThisGame]);
+  }, [gameState, isSolving, isTimeUp, showMatch, findBestPlacement, recordWin, countLetterPlaced, commitState, handleUndo, handleRedo]);
 
   // Click on a letter in the tray to auto-place it
   const handleTrayLetterClick = useCallback((letter: Letter) => {
@@ -267,23 +733,16 @@ export default function Game() {
     if (!position) return;
 
     const newState = placeLetter(gameState, letter.id, position.row, position.col);
-    setGameState(newState);
+    commitState(newState, { type: 'place', letterId: letter.id, ...position });
     setSelectedLetterId(null);
     setMovingLetterId(null);
 
-    // Track letter placement
-    const updatedStats = trackLetterPlaced();
-    setStats(updatedStats);
+    countLetterPlaced();
 
     if (newState.isWon) {
-      setIsTimerRunning(false);
-      const { stats: winStats, newMilestones } = trackGameWon(timer, hintsUsedThisGame);
-      setStats(winStats);
-      if (newMilestones.length > 0) {
-        setCurrentMilestone(newMilestones[0]);
-      }
+      recordWin(newState);
     }
-  }, [gameState, isSolving, findBestPlacement, timer, hintsUsedThisGame]);
+  }, [gameState, isSolving, findBestPlacement, recordWin, countLetterPlaced, commitState]);
 
   // Click on a placed letter - single tap removes, double tap picks up for moving
   const handlePlacedLetterClick = useCallback((letter: Letter) => {
@@ -311,19 +770,19 @@ export default function Game() {
           newState = removeLetter(newState, letter.id);
           newState = placeLetter(newState, letter.id, movingLetter.position.row, movingLetter.position.col);
           newState = placeLetter(newState, movingLetterId, letter.position.row, letter.position.col);
-          setGameState(newState);
+          commitState(newState, { type: 'swap', letterId: movingLetterId, otherId: letter.id });
           setMovingLetterId(null);
           setAutoSolved(false);
         }
       } else {
         // Not moving, just remove the letter
         const newState = removeLetter(gameState, letter.id);
-        setGameState(newState);
+        commitState(newState, { type: 'remove', letterId: letter.id });
         setSelectedLetterId(null);
         setAutoSolved(false);
       }
     }
-  }, [gameState, isSolving, lastTapTime, movingLetterId]);
+  }, [gameState, isSolving, lastTapTime, movingLetterId, commitState]);
 
   // Click on an empty cell to place selected or moving letter
   const handleCellClick = useCallback((row: number, col: number) => {
@@ -336,17 +795,12 @@ export default function Game() {
         // Remove from old position and place at new position
         let newState = removeLetter(gameState, movingLetterId);
         newState = placeLetter(newState, movingLetterId, row, col);
-        setGameState(newState);
+        commitState(newState, { type: 'move', letterId: movingLetterId, row, col });
         setMovingLetterId(null);
         setAutoSolved(false);
 
         if (newState.isWon) {
-          setIsTimerRunning(false);
-          const { stats: winStats, newMilestones } = trackGameWon(timer, hintsUsedThisGame);
-          setStats(winStats);
-          if (newMilestones.length > 0) {
-            setCurrentMilestone(newMilestones[0]);
-          }
+          recordWin(newState);
         }
       }
       return;
@@ -356,46 +810,107 @@ export default function Game() {
     if (!selectedLetterId) return;
 
     const newState = placeLetter(gameState, selectedLetterId, row, col);
-    setGameState(newState);
+    commitState(newState, { type: 'place', letterId: selectedLetterId, row, col });
     setSelectedLetterId(null);
 
-    // Track letter placement
-    const updatedStats = trackLetterPlaced();
-    setStats(updatedStats);
+    countLetterPlaced();
 
     if (newState.isWon) {
-      setIsTimerRunning(false);
-      // Track win
-      const { stats: winStats, newMilestones } = trackGameWon(timer, hintsUsedThisGame);
-      setStats(winStats);
-      if (newMilestones.length > 0) {
-        setCurrentMilestone(newMilestones[0]);
-      }
+      recordWin(newState);
     }
-  }, [gameState, selectedLetterId, movingLetterId, isSolving, timer, hintsUsedThisGame]);
+  }, [gameState, selectedLetterId, movingLetterId, isSolving, recordWin, countLetterPlaced, commitState]);
 
   const handleShuffle = useCallback(() => {
     if (!gameState || isSolving) return;
-    setGameState(shuffleUnplacedLetters(gameState));
+    const shuffled = shuffleUnplacedLetters(gameState);
+    commitState(shuffled, {
+      type: 'shuffle',
+      faces: shuffled.letters.filter(l => !l.position).map(({ id, char, die }) => ({ id, char, die })),
+    });
     setSelectedLetterId(null);
-    setHintsUsedThisGame(true);
+    setShufflesThisGame(n => n + 1);
     
-    // Track hint usage
-    const updatedStats = trackHintUsed();
-    setStats(updatedStats);
-  }, [gameState, isSolving]);
+    // Track hint usage (daily results carry their own hint flag)
+    if (mode !== 'daily' && mode !== 'zen') {
+      const updatedStats = trackHintUsed();
+      setStats(updatedStats);
+    }
+  }, [gameState, isSolving, mode, commitState]);
+
+  // Re-roll a tray letter's die; the time penalty goes straight onto the clock
+  // It's an undo step like any move - undoing brings the old face back, but the penalty stays
+  const handleRerollDie = useCallback((letter: Letter) => {
+    if (!gameState || isSolving) return;
+
+    // Zen has no clock to add a penalty to
+    const penaltySeconds = mode === 'zen' ? 0 : settings?.rerollPenaltySeconds ?? DEFAULT_REROLL_PENALTY_SECONDS;
+    const newState = rerollDie(gameState, letter.id, { penaltySeconds });
+    if (newState === gameState) return;
+
+    commitState(newState, { type: 'reroll', letterId: letter.id, char: newState.letters.find(l => l.id === letter.id)!.char });
+    setTimer(t => t + penaltySeconds);
+    if (mode !== 'zen') setStats(trackRerollUsed());
+  }, [gameState, isSolving, settings, mode, commitState]);
+
+  // A joined match's link is dropped from the URL once it's done with, so a reload starts fresh
+  const handleCloseMatch = useCallback(() => {
+    setShowMatch(false);
+    if (joinCode) {
+      setJoinCode(null);
+      window.history.replaceState(null, '', window.location.pathname);
+    }
+  }, [joinCode]);
+
+  // Open the viewer on the log so far; recording carries on underneath
+  const handleWatchReplay = useCallback(() => {
+    if (replayRef.current) setReplayLog(replayRef.current);
+  }, []);
+
+  const handleChangeSettings = useCallback((changes: Partial<GameSettings>) => {
+    setSettings(updateSettings(changes));
+  }, []);
+
+  // Place a solution's letters one by one with a staggered delay
+  // Solutions for an auto-expanding board can be bigger than the grid, so it grows to fit first
+  const animatePlacements = useCallback(async (
+    state: GameState,
+    placements: { letterId: string; row: number; col: number }[]
+  ): Promise<GameState> => {
+    let currentState = fitPlacements(state, placements);
+    setHistory(h => h && replacePresent(h, currentState));
+    for (const placement of placements) {
+      await new Promise(resolve => setTimeout(resolve, 80 + Math.random() * 40));
+
+      currentState = placeLetter(currentState, placement.letterId, placement.row, placement.col);
+      setHistory(h => h && replacePresent(h, currentState));
+    }
+    currentState = expandGrid(currentState);
+    setHistory(h => h && replacePresent(h, currentState));
+    return currentState;
+  }, []);
 
   const handleSolve = useCallback(async () => {
     if (!gameState || isSolving) return;
+    const historyBefore = history;
 
     setIsSolving(true);
     setSolveError(null);
     setSolveMessage(null);
     setSelectedLetterId(null);
     
-    // Track solve button usage
-    const updatedStats = trackSolveUsed();
-    setStats(updatedStats);
+    // Track solve button usage - a revealed daily counts as unsolved
+    if (mode === 'daily' && dailyDate) {
+      setDailyResult(saveDailyResult({
+        date: dailyDate,
+        seed: gameState.seed,
+        time: timer,
+        hintsUsed: true,
+        solved: false,
+      }));
+    } else if (mode !== 'zen') {
+      const updatedStats = trackSolveUsed();
+      setStats(updatedStats);
+    }
 
     // Clear existing placements first
     let clearedState = gameState;
@@ -404,16 +919,65 @@ export default function Game() {
         clearedState = removeLetter(clearedState, letter.id);
       }
     }
-    setGameState(clearedState);
+    commitState(clearedState);
 
     // Small delay for visual effect
     await new Promise(resolve => setTimeout(resolve, 300));
 
-    // Run solver
-    const result = solvePuzzle(clearedState.letters);
+    // Solvers run in the background so the page stays responsive; null means cancelled
+    const runJob = async <T,>(job: SolveJob<T>, onError: T): Promise<T | null> => {
+      solveJobRef.current = job;
+      try {
+        return await job.result;
+      } catch {
+        return onError;
+      } finally {
+        solveJobRef.current = null;
+      }
+    };
+
+    setSolveProgress('Searching...');
+    const gridSize = boardSolverSize(clearedState);
+    let result = await runJob(solveInWorker(clearedState.letters, {
+      gridSize,
+      onProgress: p => setSolveProgress(
+        `Searching... ${p.combosChecked.toLocaleString()} combos, ${p.attempts.toLocaleString()} layouts tried`
+      ),
+    }), { success: false, placements: [] });
+
+    // The quick search only tries likely shapes, so check every layout before settling for less
+    let provenUnsolvable = false;
+    if (result && (!result.success || result.removedLetter)) {
+      setSolveProgress('Checking every layout...');
+      const exact = await runJob(solveExactInWorker(clearedState.letters, {
+        gridSize,
+        onProgress: p => setSolveProgress(
+          `Checking every layout... ${p.nodesVisited.toLocaleString()} positions, ${(p.elapsedMs / 1000).toFixed(0)}s`
+        ),
+      }), { status: 'timeout', stats: { nodesVisited: 0, timeMs: 0 } });
+
+      if (!exact) {
+        result = null;
+      } else if (exact.status === 'solved') {
+        result = { success: true, placements: exact.placements };
+      } else {
+        provenUnsolvable = exact.status === 'unsolvable';
+      }
+    }
+    setSolveProgress(null);
+
+    // Cancelled - put the player's board back
+    if (!result) {
+      setHistory(historyBefore);
+      setIsSolving(false);
+      return;
+    }
 
     if (!result.success) {
-      setSolveError('No solution found - try a new game!');
+      record({ type: 'solve', placements: [] });
+      setSolveError(provenUnsolvable
+        ? 'This roll has no solution - try a new game!'
+        : 'No solution found - try a new game!');
       setIsSolving(false);
       
       // Clear error after 3 seconds
@@ -425,23 +989,17 @@ export default function Game() {
 
     // Show message if solved with 11 letters
     if (result.removedLetter) {
-      setSolveMessage(`Solved by removing "${result.removedLetter}"`);
+      setSolveMessage(provenUnsolvable
+        ? `No ${clearedState.letters.length}-letter solution exists - solved by removing "${result.removedLetter}"`
+        : `Solved by removing "${result.removedLetter}"`);
       // Clear after 4 seconds
       solveTimeoutRef.current = setTimeout(() => {
         setSolveMessage(null);
       }, 4000);
     }
 
-    // Animate letters one by one with staggered delay
-    let currentState = clearedState;
-    for (let i = 0; i < result.placements.length; i++) {
-      const placement = result.placements[i];
-      
-      await new Promise(resolve => setTimeout(resolve, 80 + Math.random() * 40));
-      
-      currentState = placeLetter(currentState, placement.letterId, placement.row, placement.col);
-      setGameState(currentState);
-    }
+    const currentState = await animatePlacements(clearedState, result.placements);
+    record({ type: 'solve', placements: result.placements });
 
     setIsSolving(false);
     setAutoSolved(true); // Mark as auto-solved so modal doesn't block
@@ -451,31 +1009,128 @@ export default function Game() {
     if (currentState.isWon) {
       setIsTimerRunning(false);
     }
-  }, [gameState, isSolving]);
+  }, [gameState, history, isSolving, mode, dailyDate, timer, animatePlacements, commitState, record]);
 
-  const handleNewGame = useCallback(() => {
+  const handleCancelSolve = useCallback(() => {
+    solveJobRef.current?.cancel();
+  }, []);
+
+  // Classic boards can be dealt with no solution; conceding asks the complete solver to settle it
+  const handleConcede = useCallback(async () => {
+    if (!gameState || isSolving) return;
+
+    setIsSolving(true);
+    setSolveError(null);
+    setSolveMessage(null);
+    setConcedeOutcome(null);
+    setSelectedLetterId(null);
+    setSolveProgress('Checking every layout...');
+
+    const job = solveExactInWorker(gameState.letters, {
+      gridSize: boardSolverSize(gameState),
+      onProgress: p => setSolveProgress(
+        `Checking every layout... ${p.nodesVisited.toLocaleString()} positions, ${(p.elapsedMs / 1000).toFixed(0)}s`
+      ),
+    });
+    solveJobRef.current = job;
+    const result = await job.result.catch(() => null);
+    solveJobRef.current = null;
+    setSolveProgress(null);
+
+    if (!result) {
+      setIsSolving(false);
+      return;
+    }
+    if (result.status === 'timeout') {
+      setConcedeOutcome('undecided');
+      setIsSolving(false);
+      return;
+    }
+
+    setIsTimerRunning(false);
+    setStats(trackConcede(result.status === 'unsolvable'));
+    if (result.status === 'unsolvable') {
+      setConcedeOutcome('correct');
+      setIsSolving(false);
+      return;
+    }
+
+    // There was a way - show it in place of the player's board
+    setConcedeOutcome('wrong');
+    let clearedState = gameState;
+    for (const letter of gameState.letters) {
+      if (letter.position) {
+        clearedState = removeLetter(clearedState, letter.id);
+      }
+    }
+    commitState(clearedState);
+    await animatePlacements(clearedState, result.placements);
+    record({ type: 'solve', placements: result.placements });
+    setIsSolving(false);
+    setAutoSolved(true);
+  }, [gameState, isSolving, animatePlacements, commitState, record]);
+
+  const startGame = useCallback((nextMode: PlayMode, band: Difficulty | null = difficulty) => {
+    if (!lexicon) return;
     if (solveTimeoutRef.current) {
       clearTimeout(solveTimeoutRef.current);
     }
-    setIsRolling(true);
+    solveJobRef.current?.cancel();
+    alternatesJobRef.current?.cancel();
+    setMode(nextMode);
     setIsTimerRunning(false);
     setSelectedLetterId(null);
     setIsSolving(false);
     setSolveError(null);
     setSolveMessage(null);
     setAutoSolved(false); // Reset auto-solved state
-    setHintsUsedThisGame(false); // Reset hints for new game
-    setTimeout(() => {
-      setGameState(createInitialState());
-      setTimer(0);
-      setIsTimerRunning(true);
-      setIsRolling(false);
-      
-      // Track new game started
-      const { stats: updatedStats } = trackGameStarted();
-      setStats(updatedStats);
-    }, 1500);
-  }, []);
+    setConcedeOutcome(null);
+    setResumeOffer(null);
+    setTimeLimit(null);
+    setIsTimeUp(false);
+    setBlitzSolved(0);
+
+    // Leaving a shared board drops its code from the URL so a reload doesn't bring it back
+    if (nextMode !== 'shared' && window.location.search) {
+      window.history.replaceState(null, '', window.location.pathname);
+    }
+    dealGame(nextMode, band);
+  }, [dealGame, lexicon, difficulty]);
+
+  const handlePickDifficulty = useCallback((band: Difficulty | null) => {
+    setDifficulty(band);
+    startGame('free', band);
+  }, [startGame]);
+
+  // The hand size is kept with the settings so it sticks between visits
+  const handlePickHandSize = useCallback((handSize: number) => {
+    setSettings(updateSettings({ handSize }));
+    startGame(mode);
+  }, [startGame, mode]);
+
+  const handleNewGame = useCallback(() => {
+    startGame(mode === 'shared' ? 'free' : mode);
+  }, [startGame, mode]);
+
+  // Copy a link to this board; with the grid it shares the current arrangement too
+  const handleShare = useCallback(async (includeGrid: boolean) => {
+    if (!gameState) return;
+
+    const url = `${window.location.origin}${window.location.pathname}?p=${encodeGameState(gameState, includeGrid)}`;
+    try {
+      if (navigator.share) {
+        await navigator.share({ title: 'Q-Less', text: 'Try this board', url });
+        return;
+      }
+      await navigator.clipboard.writeText(url);
+      setShareMessage('Link copied!');
+    } catch {
+      setShareMessage(url);
+    }
+    solveTimeoutRef.current = setTimeout(() => {
+      setShareMessage(null);
+    }, 3000);
+  }, [gameState]);
 
   const formatTime = (seconds: number) => {
     const mins = Math.floor(seconds / 60);
@@ -483,11 +1138,15 @@ export default function Game() {
     return `${mins}:${secs.toString().padStart(2, '0')}`;
   };
 
+  const handCount = gameState?.letters.length ?? settings?.handSize ?? DEFAULT_HAND_SIZE;
   const placedCount = gameState?.letters.filter((l) => l.position !== null).length || 0;
   const validWordCount = gameState?.words.filter((w) => w.isValid).length || 0;
-  const scrabbleValidCount = gameState?.words.filter((w) => w.isScrabbleValid).length || 0;
   const hasInvalidWords = gameState?.words.some((w) => !w.isValid) || false;
-  const hasNonScrabbleWords = gameState?.words.some((w) => w.isValid && !w.isScrabbleValid) || false;
+  // Once every letter is down, point out whatever is keeping the board from winning
+  const boardReport = gameState && placedCount === handCount && !gameState.isWon ? validateBoard(gameState) : null;
+  // Zen suggests words the tray's letters can still make; lexicon is here so a new list refreshes them
+  const tray = gameState?.letters.filter((l) => !l.position).map((l) => l.char).join('') ?? '';
+  const trayWords = useMemo(() => (mode === 'zen' && lexicon ? findTrayWords(tray) : []), [mode, lexicon, tray]);
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900 flex flex-col items-center justify-center p-4">
@@ -508,8 +1167,95 @@ export default function Game() {
             Q-Less
           </h1>
           <p className="text-slate-400 text-sm">
-            Arrange all 12 letters into connected words
+            {mode === 'daily' && dailyDate
+              ? `Daily puzzle · ${dailyDate}`
+              : mode === 'shared'
+              ? 'Shared puzzle'
+              : mode === 'classic'
+              ? 'Classic dice - this roll may have no solution'
+              : mode === 'countdown'
+              ? `Use all ${handCount} letters before the clock runs out`
+              : mode === 'blitz'
+              ? 'Solve as many rolls as you can before the clock runs out'
+              : mode === 'zen'
+              ? 'No clock, no score - take your time'
+              : `Arrange all ${handCount} letters into connected words`}
           </p>
+
+          {/* Mode toggle */}
+          <div className="mt-3 inline-flex p-1 rounded-xl bg-slate-800/60 border border-slate-700/50">
+            {(['free', 'classic', 'daily', 'countdown', 'blitz', 'zen'] as const).map((m) => (
+              <button
+                key={m}
+                onClick={() => m !== mode && startGame(m)}
+                disabled={isSolving}
+                className={`px-3 py-1 rounded-lg text-sm font-medium transition-all disabled:cursor-not-allowed ${
+                  mode === m ? 'bg-slate-600 text-white' : 'text-slate-400 hover:text-slate-200'
+                }`}
+              >
+                {m === 'free'
+                  ? 'Free Play'
+                  : m === 'classic'
+                  ? 'Classic'
+                  : m === 'daily'
+                  ? 'Daily'
+                  : m === 'countdown'
+                  ? 'Countdown'
+                  : m === 'blitz'
+                  ? 'Blitz'
+                  : 'Zen'}
+              </button>
+            ))}
+          </div>
+
+          {/* Hand size picker - the dealt modes only; daily is always the standard hand */}
+          {(mode === 'free' || mode === 'classic' || mode === 'zen' || isTimedMode(mode)) && (
+            <div className="mt-2 flex justify-center items-center gap-1 text-xs">
+              {HAND_SIZES.map((size) => (
+                <button
+                  key={size}
+                  onClick={() => size !== settings?.handSize && handlePickHandSize(size)}
+                  disabled={isSolving || isRolling}
+                  className={`px-2 py-0.5 rounded-full border transition-all disabled:cursor-not-allowed ${
+                    size === (settings?.handSize ?? DEFAULT_HAND_SIZE)
+                      ? 'bg-slate-600 text-white border-slate-500'
+                      : 'text-slate-500 border-transparent hover:text-slate-300'
+                  }`}
+                >
+                  {size}
+                </button>
+              ))}
+              <span className="ml-1 text-slate-500">letters</span>
+            </div>
+          )}
+
+          {/* Difficulty picker - free play only */}
+          {mode === 'free' && (
+            <div className="mt-2 flex justify-center gap-1 text-xs">
+              {[null, ...DIFFICULTIES].map((band) => (
+                <button
+                  key={band ?? 'any'}
+                  onClick={() => handlePickDifficulty(band)}
+                  disabled={isSolving || isRolling}
+                  className={`px-2 py-0.5 rounded-full border transition-all disabled:cursor-not-allowed ${
+                    difficulty === band
+                      ? band ? DIFFICULTY_COLORS[band] : 'bg-slate-600 text-white border-slate-500'
+                      : 'text-slate-500 border-transparent hover:text-slate-300'
+                  }`}
+                >
+                  {band ? DIFFICULTY_LABELS[band] : 'Any'}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {mode === 'daily' && dailyResult && (
+            <p className={`mt-2 text-xs ${dailyResult.solved ? 'text-green-400' : 'text-slate-500'}`}>
+              {dailyResult.solved
+                ? `Solved today in ${formatTime(dailyResult.time)}${dailyResult.hintsUsed ? ' with hints' : ''}`
+                : 'Revealed today - replay for practice'}
+            </p>
+          )}
         </motion.div>
 
         {/* Stats bar */}
@@ -520,24 +1266,87 @@ export default function Game() {
           className="flex justify-between items-center mb-4 px-2"
         >
           <div className="flex items-center gap-2">
-            <span className="text-2xl">⏱️</span>
-            <span className="text-xl font-mono text-white">{formatTime(timer)}</span>
+            {timeLimit !== null ? (
+              <>
+                {/* Timed modes count down, turning red as time runs low */}
+                <span className="text-2xl">⏳</span>
+                <span
+                  className={`text-xl font-mono ${
+                    isTimeUp || isLowOnTime(timeLimit, timer) ? 'text-red-400 animate-pulse' : 'text-white'
+                  }`}
+                  title={`${formatTime(timeLimit)} limit`}
+                >
+                  {formatTime(isTimeUp ? 0 : timeRemaining(timeLimit, timer))}
+                </span>
+              </>
+            ) : mode === 'zen' ? (
+              <span className="text-2xl" title="Zen - no clock">🧘</span>
+            ) : (
+              <>
+                <span className="text-2xl">⏱️</span>
+                <span className="text-xl font-mono text-white">{formatTime(timer)}</span>
+              </>
+            )}
+            {rating && !isRolling && (
+              <span
+                className={`ml-1 px-2 py-0.5 rounded-full border text-xs font-medium ${DIFFICULTY_COLORS[rating.difficulty]}`}
+                title={`Difficulty ${rating.score}/100`}
+              >
+                {DIFFICULTY_LABELS[rating.difficulty]}
+              </span>
+            )}
+            {/* Until the rating turns up a solution, the player can't know this roll has one */}
+            {isUnverified && !isRolling && !rating?.features.solutionCount && (
+              <span
+                className="ml-1 px-2 py-0.5 rounded-full border text-xs font-medium bg-amber-500/20 border-amber-500/30 text-amber-400"
+                title="No solution was found for this roll in time - it may not use every letter"
+              >
+                Unverified
+              </span>
+            )}
           </div>
           <div className="flex items-center gap-4">
+            {mode === 'blitz' && (
+              <div className="text-center">
+                <p className="text-lg font-bold text-amber-400">{blitzSolved}</p>
+                <p className="text-xs text-slate-500">Solved</p>
+              </div>
+            )}
             <div className="text-center">
-              <p className="text-lg font-bold text-blue-400">{placedCount}/12</p>
+              <p className="text-lg font-bold text-blue-400">{placedCount}/{handCount}</p>
               <p className="text-xs text-slate-500">Placed</p>
             </div>
-            <div className="text-center" title={hasNonScrabbleWords ? 'Some words not in Scrabble dictionary' : ''}>
+            <div className="text-center">
               <p className={`text-lg font-bold ${
                 hasInvalidWords ? 'text-red-400' : 
-                hasNonScrabbleWords ? 'text-amber-400' :
                 validWordCount > 0 ? 'text-green-400' : 'text-slate-500'
               }`}>
                 {validWordCount}
               </p>
               <p className="text-xs text-slate-500">Words</p>
             </div>
+            {/* Head-to-head button */}
+            <motion.button
+              whileHover={{ scale: 1.1 }}
+              whileTap={{ scale: 0.95 }}
+              onClick={() => setShowMatch(true)}
+              disabled={!lexicon || isSolving}
+              className="p-2 rounded-xl bg-slate-700/50 hover:bg-slate-600/50 border border-slate-600/30 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+              title="Head-to-head match on one roll"
+            >
+              <span className="text-lg">👥</span>
+            </motion.button>
+            {/* Replay button */}
+            <motion.button
+              whileHover={{ scale: 1.1 }}
+              whileTap={{ scale: 0.95 }}
+              onClick={handleWatchReplay}
+              disabled={!gameState || isRolling || isSolving}
+              className="p-2 rounded-xl bg-slate-700/50 hover:bg-slate-600/50 border border-slate-600/30 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+              title="Watch a replay of this game"
+            >
+              <span className="text-lg">🎬</span>
+            </motion.button>
             {/* Stats button */}
             <motion.button
               whileHover={{ scale: 1.1 }}
@@ -548,12 +1357,22 @@ export default function Game() {
             >
               <span className="text-lg">📊</span>
             </motion.button>
+            {/* Settings button */}
+            <motion.button
+              whileHover={{ scale: 1.1 }}
+              whileTap={{ scale: 0.95 }}
+              onClick={() => setShowSettingsModal(true)}
+              className="p-2 rounded-xl bg-slate-700/50 hover:bg-slate-600/50 border border-slate-600/30 transition-all"
+              title={lexicon ? `Settings (word list: ${lexicon.name})` : 'Settings'}
+            >
+              <span className="text-lg">⚙️</span>
+            </motion.button>
           </div>
         </motion.div>
 
         {/* Rolling animation */}
         <AnimatePresence mode="wait">
-          {isRolling ? (
+          {isRolling || dealError ? (
             <motion.div
               key="rolling"
               initial={{ opacity: 0 }}
@@ -574,7 +1393,70 @@ export default function Game() {
               >
                 ?
               </motion.div>
-              <p className="text-slate-400 animate-pulse">Rolling dice...</p>
+              {resumeOffer ? (
+                <div className="text-center">
+                  <p className="text-slate-300 mb-1">You have an unfinished game</p>
+                  <p className="text-xs text-slate-500 mb-4">
+                    {resumeOffer.mode === 'daily'
+                      ? 'Daily puzzle'
+                      : resumeOffer.mode === 'classic'
+                      ? 'Classic'
+                      : resumeOffer.mode === 'shared'
+                      ? 'Shared puzzle'
+                      : resumeOffer.mode === 'zen'
+                      ? 'Zen'
+                      : 'Free Play'}
+                    {' · '}{resumeOffer.history.present.placementOrder.length}/{resumeOffer.history.present.letters.length} placed
+                    {resumeOffer.mode !== 'zen' && ` · ${formatTime(resumeOffer.timer)}`}
+                  </p>
+                  <div className="flex gap-3 justify-center">
+                    <button
+                      onClick={handleResume}
+                      className="px-4 py-2 rounded-xl bg-blue-600 hover:bg-blue-500 text-white text-sm font-medium transition-all"
+                    >
+                      Resume
+                    </button>
+                    <button
+                      onClick={handleDiscardSaved}
+                      className="px-4 py-2 rounded-xl bg-slate-700/50 hover:bg-slate-600/50 border border-slate-600/30 text-slate-200 text-sm transition-all"
+                    >
+                      New game
+                    </button>
+                  </div>
+                </div>
+              ) : dealError ? (
+                <div className="text-center">
+                  <p className="text-red-400 mb-3">{dealError}</p>
+                  <button
+                    onClick={handleRetryDeal}
+                    className="px-4 py-2 rounded-xl bg-slate-700/50 hover:bg-slate-600/50 border border-slate-600/30 text-slate-200 text-sm transition-all"
+                  >
+                    Retry
+                  </button>
+                </div>
+              ) : lexiconError ? (
+                <div className="text-center">
+                  <p className="text-red-400 mb-3">{lexiconError}</p>
+                  <button
+                    onClick={handleRetryLexicon}
+                    className="px-4 py-2 rounded-xl bg-slate-700/50 hover:bg-slate-600/50 border border-slate-600/30 text-slate-200 text-sm transition-all"
+                  >
+                    Retry
+                  </button>
+                </div>
+              ) : lexiconProgress !== null ? (
+                <p className="text-slate-400 animate-pulse">
+                  Loading word list... {Math.round(lexiconProgress * 100)}%
+                </p>
+              ) : (
+                <p className="text-slate-400 animate-pulse">
+                  {mode === 'blitz' && blitzSolved > 0
+                    ? `${blitzSolved} solved! Rolling the next board...`
+                    : mode === 'free' && difficulty
+                    ? `Finding ${difficulty === 'easy' || difficulty === 'expert' ? 'an' : 'a'} ${DIFFICULTY_LABELS[difficulty].toLowerCase()} roll...`
+                    : 'Rolling dice...'}
+                </p>
+              )}
             </motion.div>
           ) : gameState ? (
             <motion.div
@@ -583,8 +1465,8 @@ export default function Game() {
               animate={{ opacity: 1, scale: 1 }}
               exit={{ opacity: 0 }}
             >
-              {/* Game Grid */}
-              <div className="mb-4">
+              {/* Game Grid - locked once the clock runs out */}
+              <div className={`mb-4 ${isTimeUp ? 'pointer-events-none opacity-60' : ''}`}>
                 <GameGrid
                   grid={gameState.grid}
                   words={gameState.words}
@@ -597,11 +1479,12 @@ export default function Game() {
                   draggingLetter={draggingLetter}
                   selectedLetterId={selectedLetterId}
                   movingLetterId={movingLetterId}
+                  report={boardReport}
                 />
               </div>
 
               {/* Dice Tray */}
-              <div className="mb-4">
+              <div className={`mb-4 ${isTimeUp ? 'pointer-events-none opacity-60' : ''}`}>
                 <DiceTray
                   letters={gameState.letters}
                   onDragStart={handleDragStart}
@@ -609,6 +1492,9 @@ export default function Game() {
                   onLetterClick={handleTrayLetterClick}
                   draggingLetter={draggingLetter}
                   selectedLetterId={selectedLetterId}
+                  // House rule: re-roll a die for a time penalty - not on the daily, which everyone plays as dealt
+                  onReroll={mode !== 'daily' && !gameState.isWon && !isTimeUp && !isSolving ? handleRerollDie : undefined}
+                  rerollLabel={mode === 'zen' ? 'Re-roll this die' : `Re-roll this die (+${settings?.rerollPenaltySeconds ?? DEFAULT_REROLL_PENALTY_SECONDS}s)`}
                 />
               </div>
 
@@ -627,16 +1513,36 @@ export default function Game() {
                   disabled={isSolving}
                   className="w-full py-4 px-6 rounded-2xl font-semibold text-white bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-500 hover:to-indigo-500 shadow-lg shadow-blue-500/25 transition-all flex items-center justify-center gap-3 disabled:opacity-50 disabled:cursor-not-allowed text-lg"
                 >
-                  <span className="text-xl">🎲</span> New Game
+                  <span className="text-xl">🎲</span> {mode === 'daily' ? 'Restart Daily' : 'New Game'}
                 </motion.button>
 
                 {/* Secondary actions */}
                 <div className="flex gap-3">
+                  <motion.button
+                    whileHover={{ scale: 1.02 }}
+                    whileTap={{ scale: 0.98 }}
+                    onClick={handleUndo}
+                    disabled={isSolving || isTimeUp || gameState.isWon || !history || !canUndo(history)}
+                    className="py-3 px-4 rounded-xl font-medium text-slate-300 bg-slate-800/60 hover:bg-slate-700/60 border border-slate-600/30 transition-all flex items-center justify-center disabled:opacity-50 disabled:cursor-not-allowed"
+                    title="Undo (Ctrl+Z)"
+                  >
+                    ↶
+                  </motion.button>
+                  <motion.button
+                    whileHover={{ scale: 1.02 }}
+                    whileTap={{ scale: 0.98 }}
+                    onClick={handleRedo}
+                    disabled={isSolving || isTimeUp || gameState.isWon || !history || !canRedo(history)}
+                    className="py-3 px-4 rounded-xl font-medium text-slate-300 bg-slate-800/60 hover:bg-slate-700/60 border border-slate-600/30 transition-all flex items-center justify-center disabled:opacity-50 disabled:cursor-not-allowed"
+                    title="Redo (Ctrl+Shift+Z)"
+                  >
+                    ↷
+                  </motion.button>
                   <motion.button
                     whileHover={{ scale: 1.02 }}
                     whileTap={{ scale: 0.98 }}
                     onClick={handleShuffle}
-                    disabled={isSolving}
+                    disabled={isSolving || isTimeUp}
                     className="flex-1 py-3 px-4 rounded-xl font-medium text-slate-200 bg-slate-700/60 hover:bg-slate-600/60 border border-slate-600/40 transition-all flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
                   >
                     <motion.span
@@ -651,7 +1557,8 @@ export default function Game() {
                     whileHover={{ scale: 1.02 }}
                     whileTap={{ scale: 0.98 }}
                     onClick={handleSolve}
-                    disabled={isSolving}
+                    disabled={isSolving || isTimeUp || mode === 'blitz'}
+                    title={mode === 'blitz' ? 'Blitz boards have to be solved to move on' : undefined}
                     className="flex-1 py-3 px-4 rounded-xl font-medium text-slate-300 bg-slate-800/60 hover:bg-slate-700/60 border border-slate-600/30 hover:border-purple-500/40 transition-all flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
                   >
                     <motion.span
@@ -662,9 +1569,66 @@ export default function Game() {
                     </motion.span>
                     {isSolving ? 'Solving...' : 'Show Me'}
                   </motion.button>
+                  <motion.button
+                    whileHover={{ scale: 1.02 }}
+                    whileTap={{ scale: 0.98 }}
+                    onClick={() => handleShare(false)}
+                    disabled={isSolving}
+                    className="py-3 px-4 rounded-xl font-medium text-slate-300 bg-slate-800/60 hover:bg-slate-700/60 border border-slate-600/30 transition-all flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                    title="Share this board"
+                  >
+                    🔗
+                  </motion.button>
                 </div>
+
+                {/* Classic boards can be unsolvable - say so and let the solver check */}
+                {mode === 'classic' && !gameState.isWon && (!concedeOutcome || concedeOutcome === 'undecided') && (
+                  <motion.button
+                    whileHover={{ scale: 1.02 }}
+                    whileTap={{ scale: 0.98 }}
+                    onClick={handleConcede}
+                    disabled={isSolving}
+                    className="w-full py-2 px-4 rounded-xl text-sm font-medium text-slate-400 bg-slate-800/40 hover:bg-slate-700/50 border border-slate-700/40 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    🏳️ Concede: unsolvable
+                  </motion.button>
+                )}
               </motion.div>
 
+              {/* Share confirmation */}
+              <AnimatePresence>
+                {shareMessage && (
+                  <motion.div
+                    initial={{ opacity: 0, y: 10, scale: 0.95 }}
+                    animate={{ opacity: 1, y: 0, scale: 1 }}
+                    exit={{ opacity: 0, y: -10, scale: 0.95 }}
+                    className="mt-4 py-2 px-4 rounded-xl bg-blue-500/20 border border-blue-500/30 text-blue-300 text-sm text-center break-all"
+                  >
+                    {shareMessage}
+                  </motion.div>
+                )}
+              </AnimatePresence>
+
+              {/* Solver progress - the search runs in a worker, so it can be cancelled */}
+              <AnimatePresence>
+                {solveProgress && (
+                  <motion.div
+                    initial={{ opacity: 0, y: 10, scale: 0.95 }}
+                    animate={{ opacity: 1, y: 0, scale: 1 }}
+                    exit={{ opacity: 0, y: -10, scale: 0.95 }}
+                    className="mt-4 py-2 px-4 rounded-xl bg-purple-500/15 border border-purple-500/30 text-purple-300 text-sm flex items-center justify-between gap-3"
+                  >
+                    <span>{solveProgress}</span>
+                    <button
+                      onClick={handleCancelSolve}
+                      className="px-3 py-1 rounded-lg bg-slate-700/60 hover:bg-slate-600/60 border border-slate-600/40 text-slate-200 transition-all"
+                    >
+                      Cancel
+                    </button>
+                  </motion.div>
+                )}
+              </AnimatePresence>
+
               {/* Solve Error Toast */}
               <AnimatePresence>
                 {solveError && (
@@ -684,7 +1648,7 @@ export default function Game() {
                 )}
               </AnimatePresence>
 
-              {/* Solve Message (11-letter solution) */}
+              {/* Solve Message (solution one letter short) */}
               <AnimatePresence>
                 {solveMessage && (
                   <motion.div
@@ -695,7 +1659,48 @@ export default function Game() {
                   >
                     <span className="mr-2">⚠️</span>
                     {solveMessage}
-                    <span className="ml-2 text-amber-500/60">(11/12 letters used)</span>
+                    <span className="ml-2 text-amber-500/60">({handCount - 1}/{handCount} letters used)</span>
+                  </motion.div>
+                )}
+              </AnimatePresence>
+
+              {/* Concede verdict */}
+              <AnimatePresence>
+                {concedeOutcome && (
+                  <motion.div
+                    initial={{ opacity: 0, y: 10, scale: 0.95 }}
+                    animate={{ opacity: 1, y: 0, scale: 1 }}
+                    exit={{ opacity: 0, y: -10, scale: 0.95 }}
+                    className={`mt-4 py-2 px-4 rounded-xl border text-sm text-center ${
+                      concedeOutcome === 'correct'
+                        ? 'bg-green-500/20 border-green-500/30 text-green-400'
+                        : concedeOutcome === 'wrong'
+                        ? 'bg-amber-500/20 border-amber-500/30 text-amber-400'
+                        : 'bg-slate-700/40 border-slate-600/40 text-slate-300'
+                    }`}
+                  >
+                    {concedeOutcome === 'correct'
+                      ? `🏳️ Good call - no layout uses all ${handCount} letters`
+                      : concedeOutcome === 'wrong'
+                      ? 'This one had a solution - here it is'
+                      : "Couldn't settle it in time - keep trying or concede again"}
+                  </motion.div>
+                )}
+              </AnimatePresence>
+
+              {/* Out of time */}
+              <AnimatePresence>
+                {isTimeUp && (
+                  <motion.div
+                    initial={{ opacity: 0, y: 10, scale: 0.95 }}
+                    animate={{ opacity: 1, y: 0, scale: 1 }}
+                    exit={{ opacity: 0, y: -10, scale: 0.95 }}
+                    className="mt-4 py-2 px-4 rounded-xl bg-red-500/20 border border-red-500/30 text-red-400 text-sm text-center"
+                  >
+                    <span className="mr-2">⏰</span>
+                    {mode === 'blitz'
+                      ? `Time's up - ${blitzSolved} ${blitzSolved === 1 ? 'board' : 'boards'} solved`
+                      : "Time's up - this board wasn't finished"}
                   </motion.div>
                 )}
               </AnimatePresence>
@@ -723,7 +1728,7 @@ export default function Game() {
                   className="mt-4 flex flex-wrap gap-2 justify-center"
                 >
                   {gameState.words.map((word, idx) => {
-                    // Three states: Scrabble-valid (green), ENABLE1-only (amber), Invalid (red)
+                    // Checked against the same dictionary the solver uses
                     let colorClass = '';
                     let icon = '';
                     let title = '';
@@ -732,14 +1737,10 @@ export default function Game() {
                       colorClass = 'bg-red-500/20 text-red-400 border border-red-500/30';
                       icon = '✗';
                       title = 'Not a valid word';
-                    } else if (!word.isScrabbleValid) {
-                      colorClass = 'bg-amber-500/20 text-amber-400 border border-amber-500/30';
-                      icon = '⚠';
-                      title = 'Valid, but not in Scrabble dictionary';
                     } else {
                       colorClass = 'bg-green-500/20 text-green-400 border border-green-500/30';
                       icon = '✓';
-                      title = 'Valid Scrabble word';
+                      title = 'Valid word';
                     }
                     
                     return (
@@ -757,14 +1758,36 @@ export default function Game() {
                 </motion.div>
               )}
 
+              {/* Zen word discovery */}
+              {mode === 'zen' && tray.length > 0 && !gameState.isWon && (
+                <motion.div
+                  initial={{ opacity: 0 }}
+                  animate={{ opacity: 1 }}
+                  className="mt-4 p-3 rounded-xl bg-teal-500/10 border border-teal-500/20 text-center"
+                >
+                  <p className="text-xs text-teal-300/80 mb-2">
+                    {trayWords.length > 0 ? 'Words hiding in your tray' : 'No words left in the tray on their own - try building off the board'}
+                  </p>
+                  {trayWords.length > 0 && (
+                    <div className="flex flex-wrap gap-1.5 justify-center">
+                      {trayWords.map((word) => (
+                        <span key={word} className="px-2 py-0.5 rounded-full text-xs text-teal-200 bg-teal-500/15">
+                          {word}
+                        </span>
+                      ))}
+                    </div>
+                  )}
+                </motion.div>
+              )}
+
               {/* Hint when close */}
-              {placedCount === 12 && !gameState.isWon && (
+              {placedCount === handCount && !gameState.isWon && !isTimeUp && (
                 <motion.p
                   initial={{ opacity: 0 }}
                   animate={{ opacity: 1 }}
                   className="text-center text-amber-400 text-sm mt-4"
                 >
-                  Almost there! Check for invalid words or disconnected letters.
+                  Almost there! Fix the numbered letters on the board.
                 </motion.p>
               )}
             </motion.div>
@@ -775,12 +1798,31 @@ export default function Game() {
       {/* Win Modal - only show for manual wins, not auto-solved */}
       {gameState && (
         <WinModal
-          isOpen={gameState.isWon && !autoSolved}
+          key={gameState.seed}
+          isOpen={gameState.isWon && !autoSolved && mode !== 'blitz'}
           words={gameState.words}
-          time={timer}
+          letters={gameState.letters}
+          alternates={alternates}
+          time={mode === 'zen' ? null : timer}
+          score={winScore?.score ?? null}
+          isHighScore={winScore?.isHighScore ?? false}
           onNewGame={handleNewGame}
+          onShare={() => handleShare(true)}
+          onWatchReplay={handleWatchReplay}
         />
       )}
+
+      {/* Head-to-head match - waits for the word list so both boards are checked against it */}
+      {showMatch && lexicon && (
+        <MatchView joinCode={joinCode} joinName={matchName ?? null} onClose={handleCloseMatch} />
+      )}
+
+      {/* Replay viewer - keyed so each opening starts from the first frame */}
+      <ReplayViewer
+        key={replayLog ? `${replayLog.startedAt}-${replayLog.events.length}` : 'closed'}
+        log={replayLog}
+        onClose={() => setReplayLog(null)}
+      />
       
       {/* Stats Modal */}
       {stats && (
@@ -791,6 +1833,16 @@ export default function Game() {
         />
       )}
       
+      {/* Settings Modal */}
+      <SettingsModal
+        isOpen={showSettingsModal}
+        onClose={() => setShowSettingsModal(false)}
+        activeLexiconId={lexicon?.id ?? DEFAULT_LEXICON_ID}
+        onSelectLexicon={handleSelectLexicon}
+        settings={settings}
+        onChangeSettings={handleChangeSettings}
+      />
+      
       {/* Milestone Toast */}
       <MilestoneToast
         milestoneId={currentMilestone}
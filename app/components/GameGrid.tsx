@@ -1,7 +1,7 @@
 'use client';
 
 import { motion } from 'framer-motion';
-import { Letter, WordResult } from '../lib/gameState';
+import { Letter, ValidationReport, WordResult } from '../lib/gameState';
 import LetterDie from './LetterDie';
 
 interface GameGridProps {
@@ -16,6 +16,8 @@ interface GameGridProps {
   draggingLetter: Letter | null;
   selectedLetterId: string | null;
   movingLetterId?: string | null;
+  report?: ValidationReport | null; // Annotates the cells and words keeping the board from winning
+  compact?: boolean; // Smaller cells, for two boards on one screen
 }
 
 export default function GameGrid({
@@ -30,6 +32,8 @@ export default function GameGrid({
   draggingLetter,
   selectedLetterId,
   movingLetterId,
+  report,
+  compact,
 }: GameGridProps) {
   // Create a map of cell positions to their word validity status
   const cellStatus = new Map<string, { isValid: boolean; isInvalid: boolean }>();
@@ -47,6 +51,16 @@ export default function GameGrid({
     }
   }
 
+  // Issues that point at cells, numbered so each cell's badge matches an entry in the list below
+  const annotated = report?.issues.filter(issue => issue.cells.length > 0) ?? [];
+  const cellIssues = new Map<string, number[]>();
+  annotated.forEach((issue, i) => {
+    for (const pos of issue.cells) {
+      const key = `${pos.row},${pos.col}`;
+      cellIssues.set(key, [...(cellIssues.get(key) ?? []), i + 1]);
+    }
+  });
+
   return (
     <div className="relative p-2 sm:p-4 rounded-2xl bg-gradient-to-br from-slate-800/80 to-slate-900/80 backdrop-blur-sm border border-slate-700/50">
       <div 
@@ -63,6 +77,7 @@ export default function GameGrid({
             const isSelectHighlighted = selectedLetterId && !cell;
             const isMoveHighlighted = movingLetterId && !cell;
             const isMovingCell = !!(cell && movingLetterId === cell.id);
+            const issueNumbers = cellIssues.get(key);
 
             return (
               <motion.div
@@ -85,7 +100,7 @@ export default function GameGrid({
                   }
                 }}
                 className={`
-                  relative aspect-square w-10 h-10 sm:w-12 sm:h-12 md:w-14 md:h-14
+                  relative aspect-square ${compact ? 'w-9 h-9' : 'w-10 h-10 sm:w-12 sm:h-12 md:w-14 md:h-14'}
                   rounded-lg transition-all duration-200
                   ${cell
                     ? 'bg-transparent'
@@ -117,10 +132,21 @@ export default function GameGrid({
                       onClick={() => onLetterClick(cell)}
                       isPartOfValidWord={status?.isValid}
                       isPartOfInvalidWord={status?.isInvalid}
+                      compact={compact}
                     />
                   </div>
                 )}
 
+                {/* Which issues this cell is part of */}
+                {cell && issueNumbers && (
+                  <span
+                    className="absolute -top-1 -right-1 z-10 min-w-4 h-4 px-1 rounded-full bg-red-500 text-white text-[10px] font-bold leading-4 text-center pointer-events-none"
+                    title={issueNumbers.map(n => annotated[n - 1].message).join('\n')}
+                  >
+                    {issueNumbers.join(',')}
+                  </span>
+                )}
+
                 {/* Drop/Place/Move indicator */}
                 {isHighlighted && (
                   <motion.div
@@ -140,6 +166,20 @@ export default function GameGrid({
           })
         )}
       </div>
+
+      {/* What each numbered badge means */}
+      {annotated.length > 0 && (
+        <ol className="mt-3 space-y-1 text-xs text-left">
+          {annotated.map((issue, i) => (
+            <li key={i} className="flex items-center gap-2 text-red-300">
+              <span className="shrink-0 w-4 h-4 rounded-full bg-red-500 text-white text-[10px] font-bold leading-4 text-center">
+                {i + 1}
+              </span>
+              {issue.message}
+            </li>
+          ))}
+        </ol>
+      )}
     </div>
   );
 }
@@ -14,6 +14,7 @@ interface LetterDieProps {
   onClick?: () => void;
   isPartOfInvalidWord?: boolean;
   isPartOfValidWord?: boolean;
+  compact?: boolean; // Smaller die, for two boards on one screen
 }
 
 export default function LetterDie({
@@ -27,6 +28,7 @@ export default function LetterDie({
   onClick,
   isPartOfInvalidWord,
   isPartOfValidWord,
+  compact,
 }: LetterDieProps) {
   const getGlowStyle = () => {
     if (isMoving) {
@@ -61,7 +63,7 @@ export default function LetterDie({
       whileTap={{ scale: 0.95 }}
       transition={{ type: 'spring', stiffness: 400, damping: 25 }}
       className={`
-        relative w-12 h-12 sm:w-14 sm:h-14 cursor-grab active:cursor-grabbing select-none
+        relative ${compact ? 'w-9 h-9' : 'w-12 h-12 sm:w-14 sm:h-14'} cursor-grab active:cursor-grabbing select-none
         ${isDragging ? 'z-50' : isMoving ? 'z-50' : isSelected ? 'z-40' : 'z-10'}
       `}
       style={{
@@ -93,7 +95,7 @@ export default function LetterDie({
         
         {/* Letter */}
         <span
-          className="relative text-2xl sm:text-3xl font-bold text-white drop-shadow-lg"
+          className={`relative ${compact ? 'text-lg' : 'text-2xl sm:text-3xl'} font-bold text-white drop-shadow-lg`}
           style={{
             textShadow: '0 2px 4px rgba(0,0,0,0.3)',
             fontFamily: 'system-ui, -apple-system, sans-serif',
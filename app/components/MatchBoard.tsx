@@ -0,0 +1,121 @@
+'use client';
+
+import { useState } from 'react';
+import { type GameState, type Letter, placeLetter, removeLetter } from '../lib/gameState';
+import type { MatchPlayer } from '../lib/match';
+import { canUndo } from '../lib/history';
+import GameGrid from './GameGrid';
+import DiceTray from './DiceTray';
+
+function formatTime(seconds: number): string {
+  return `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`;
+}
+
+interface MatchBoardProps {
+  player: MatchPlayer;
+  now: number;
+  isLocked: boolean; // The match is over, so the board is only for looking at
+  compact: boolean;
+  onMove: (next: GameState) => void;
+  onUndo: () => void;
+  onGiveUp?: () => void;
+}
+
+// One player's board. Tap a tray letter then an empty cell to place it; tap a placed letter
+// to pick it up for moving, and tap it again to send it back to the tray
+export default function MatchBoard({ player, now, isLocked, compact, onMove, onUndo, onGiveUp }: MatchBoardProps) {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [dragging, setDragging] = useState<Letter | null>(null);
+  const state = player.history.present;
+  const selected = state.letters.find(l => l.id === selectedId) ?? null;
+  const isDone = player.time !== null || player.gaveUp;
+
+  const place = (letterId: string, row: number, col: number) => {
+    setSelectedId(null);
+    const next = placeLetter(state, letterId, row, col);
+    if (next !== state) onMove(next);
+  };
+
+  const handlePlacedClick = (letter: Letter) => {
+    if (selectedId !== letter.id) {
+      setSelectedId(letter.id);
+      return;
+    }
+    setSelectedId(null);
+    onMove(removeLetter(state, letter.id));
+  };
+
+  const elapsed = player.startedAt === null ? 0 : Math.max(0, Math.floor((now - player.startedAt) / 1000));
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-2 px-1">
+        <span className="font-semibold text-white">{player.name}</span>
+        <span className={`font-mono ${player.time !== null ? 'text-green-400' : player.gaveUp ? 'text-slate-500' : 'text-white'}`}>
+          {player.time !== null ? `✓ ${formatTime(player.time)}` : player.gaveUp ? 'Gave up' : formatTime(elapsed)}
+        </span>
+      </div>
+
+      <div className={isLocked || isDone ? 'pointer-events-none opacity-80' : ''}>
+        <div className="mb-3">
+          <GameGrid
+            grid={state.grid}
+            words={state.words}
+            onDrop={(row, col) => {
+              if (dragging) place(dragging.id, row, col);
+              setDragging(null);
+            }}
+            onDragOver={(e) => e.preventDefault()}
+            onLetterDragStart={(e, letter) => {
+              e.dataTransfer.setData('letterId', letter.id);
+              setDragging(letter);
+              setSelectedId(null);
+            }}
+            onLetterDragEnd={() => setDragging(null)}
+            onLetterClick={handlePlacedClick}
+            onCellClick={(row, col) => selectedId && place(selectedId, row, col)}
+            draggingLetter={dragging}
+            selectedLetterId={selected && !selected.position ? selected.id : null}
+            movingLetterId={selected?.position ? selected.id : null}
+            compact={compact}
+          />
+        </div>
+        <div className="mb-3">
+          <DiceTray
+            letters={state.letters}
+            onDragStart={(e, letter) => {
+              e.dataTransfer.setData('letterId', letter.id);
+              setDragging(letter);
+              setSelectedId(null);
+            }}
+            onDragEnd={() => setDragging(null)}
+            onLetterClick={(letter) => setSelectedId(id => (id === letter.id ? null : letter.id))}
+            draggingLetter={dragging}
+            selectedLetterId={selectedId}
+            compact={compact}
+          />
+        </div>
+
+        {!isLocked && !isDone && (
+          <div className="flex gap-2">
+            <button
+              onClick={onUndo}
+              disabled={!canUndo(player.history)}
+              className="flex-1 py-2 rounded-xl text-sm font-medium text-slate-300 bg-slate-800/60 hover:bg-slate-700/60 border border-slate-600/30 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              ↶ Undo
+            </button>
+            {onGiveUp && (
+              <button
+                onClick={onGiveUp}
+                className="flex-1 py-2 rounded-xl text-sm font-medium text-slate-400 bg-slate-800/40 hover:bg-slate-700/50 border border-slate-700/40 transition-all"
+              >
+                🏳️ Give up
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+import type { MatchSummary } from '../lib/match';
+
+function formatTime(seconds: number): string {
+  return `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`;
+}
+
+// Who won, then every board fastest first with the words on it
+export default function MatchResults({ summary }: { summary: MatchSummary[] }) {
+  const winner = summary.find(s => s.isWinner);
+
+  return (
+    <>
+      <h3 className="text-xl font-bold text-white text-center mb-4">
+        {winner ? `🏆 ${winner.name} wins!` : summary.some(s => s.time !== null) ? "It's a draw!" : 'Nobody finished'}
+      </h3>
+      <div className="space-y-3">
+        {summary.map((entry, i) => (
+          <div
+            key={i}
+            className={`p-3 rounded-xl border ${
+              entry.isWinner ? 'bg-green-500/10 border-green-500/30' : 'bg-slate-700/30 border-slate-600/30'
+            }`}
+          >
+            <div className="flex justify-between text-sm mb-2">
+              <span className="font-medium text-white">{entry.name}</span>
+              <span className="font-mono text-slate-300">
+                {entry.time !== null ? formatTime(entry.time) : `Didn't finish · ${entry.placed} placed`}
+              </span>
+            </div>
+            <div className="flex flex-wrap gap-1.5">
+              {entry.words.length > 0 ? (
+                entry.words.map((word, j) => (
+                  <span key={j} className="px-2 py-0.5 rounded-full text-xs text-green-300 bg-green-500/15">
+                    {word}
+                  </span>
+                ))
+              ) : (
+                <span className="text-xs text-slate-500">No words yet</span>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+    </>
+  );
+}
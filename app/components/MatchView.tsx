@@ -0,0 +1,289 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import type { GameState } from '../lib/gameState';
+import {
+  type MatchFinish,
+  type MatchLayout,
+  type MatchPlayer,
+  type MatchSetup,
+  createMatchPlayers,
+  decodeMatchCode,
+  encodeMatchCode,
+  isMatchOver,
+  openMatchChannel,
+  playMove,
+  startTurn,
+  summarizeMatch,
+  undoMove,
+} from '../lib/match';
+import { randomSeed } from '../lib/random';
+import { boardFromSettings, loadSettings } from '../lib/settings';
+import MatchBoard from './MatchBoard';
+import MatchResults from './MatchResults';
+import NetworkRace from './NetworkRace';
+
+// Screens this wide fit both boards side by side; narrower ones take turns
+const SPLIT_SCREEN_QUERY = '(min-width: 768px)';
+
+const LAYOUTS: { layout: MatchLayout; label: string; description: string }[] = [
+  { layout: 'split', label: 'Split screen', description: 'Both boards at once - first valid board wins' },
+  { layout: 'turns', label: 'Take turns', description: 'Pass the device along - fastest time wins' },
+  { layout: 'tabs', label: 'Two tabs', description: 'Opens a second tab for the other player' },
+];
+
+// Network races on separate devices run in their own screen (NetworkRace)
+type Phase = 'setup' | 'handoff' | 'playing' | 'network';
+
+interface MatchViewProps {
+  joinCode: string | null; // Match code from the URL - this tab joins a race another tab started
+  joinName: string | null;
+  onClose: () => void;
+}
+
+export default function MatchView({ joinCode, joinName, onClose }: MatchViewProps) {
+  const joined = joinCode ? decodeMatchCode(joinCode) : null;
+
+  const [phase, setPhase] = useState<Phase>(joined ? 'playing' : 'setup');
+  const [names, setNames] = useState(['Player 1', 'Player 2']);
+  const [layout, setLayout] = useState<MatchLayout>(() => {
+    if (joined) return 'tabs';
+    return window.matchMedia(SPLIT_SCREEN_QUERY).matches ? 'split' : 'turns';
+  });
+  const [setup, setSetup] = useState<MatchSetup | null>(joined);
+  const [players, setPlayers] = useState<MatchPlayer[]>(() =>
+    joined ? createMatchPlayers([joinName || 'Player 2'], joined, 'tabs') : []
+  );
+  const [turn, setTurn] = useState(0); // Whose go it is when taking turns
+  const [remote, setRemote] = useState<MatchFinish[]>([]); // Finishes from the other tab
+  const [now, setNow] = useState(0);
+  const channelRef = useRef<ReturnType<typeof openMatchChannel> | null>(null);
+
+  const code = setup ? encodeMatchCode(setup) : null;
+  const isOver = players.length > 0 && (isMatchOver(players, layout) || remote.length > 0);
+
+  // Tick the clocks while anyone is playing
+  useEffect(() => {
+    if (phase !== 'playing' || isOver) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [phase, isOver]);
+
+  // Two tabs hear about each other's finish over the channel
+  useEffect(() => {
+    if (layout !== 'tabs' || !code) return;
+    const channel = openMatchChannel(code, finish => setRemote(prev => [...prev, finish]));
+    channelRef.current = channel;
+    return () => {
+      channel.close();
+      channelRef.current = null;
+    };
+  }, [layout, code]);
+
+  const handleStart = useCallback(() => {
+    const settings = loadSettings();
+    const next: MatchSetup = { seed: randomSeed(), handSize: settings.handSize, board: boardFromSettings(settings) };
+    const startedAt = Date.now();
+
+    // In two tabs, this tab plays the first player and the new tab the second
+    setSetup(next);
+    setPlayers(createMatchPlayers(layout === 'tabs' ? [names[0]] : names, next, layout, startedAt));
+    setRemote([]);
+    setTurn(0);
+    setNow(startedAt);
+    setPhase(layout === 'turns' ? 'handoff' : 'playing');
+
+    if (layout === 'tabs') {
+      const params = new URLSearchParams({ match: encodeMatchCode(next), name: names[1] });
+      window.open(`${window.location.pathname}?${params}`, '_blank');
+    }
+  }, [layout, names]);
+
+  // A finished (or abandoned) turn hands the device on, if anyone is still to play
+  const endTurn = useCallback((index: number) => {
+    if (layout !== 'turns' || index + 1 >= players.length) return;
+    setTurn(index + 1);
+    setPhase('handoff');
+  }, [layout, players.length]);
+
+  const handleMove = useCallback((index: number, next: GameState) => {
+    if (isOver) return;
+    const moved = playMove(players[index], next, Date.now());
+    if (moved === players[index]) return;
+    setPlayers(players.map((p, i) => (i === index ? moved : p)));
+
+    if (moved.time !== null) {
+      const state = moved.history.present;
+      channelRef.current?.post({
+        name: moved.name,
+        time: moved.time,
+        words: state.words.filter(w => w.isValid).map(w => w.word),
+        placed: state.placementOrder.length,
+      });
+      endTurn(index);
+    }
+  }, [players, isOver, endTurn]);
+
+  const handleUndo = useCallback((index: number) => {
+    setPlayers(players.map((p, i) => (i === index ? undoMove(p) : p)));
+  }, [players]);
+
+  const handleGiveUp = useCallback((index: number) => {
+    setPlayers(players.map((p, i) => (i === index ? { ...p, gaveUp: true } : p)));
+    endTurn(index);
+  }, [players, endTurn]);
+
+  const handleReady = useCallback(() => {
+    const startedAt = Date.now();
+    setPlayers(players.map((p, i) => (i === turn ? startTurn(p, startedAt) : p)));
+    setNow(startedAt);
+    setPhase('playing');
+  }, [players, turn]);
+
+  const summary = isOver ? summarizeMatch(players, remote) : [];
+  // Taking turns shows one board at a time, so nobody sees how the other got on
+  const visible = layout === 'turns' ? players.filter((_, i) => i === turn) : players;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      className="fixed inset-0 z-40 overflow-y-auto bg-slate-900/95 backdrop-blur-sm p-4"
+    >
+      <div className={`mx-auto ${layout === 'split' && phase !== 'setup' ? 'max-w-4xl' : 'max-w-lg'}`}>
+        {/* Header */}
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-2xl font-bold text-white">Head-to-Head</h2>
+          <button
+            onClick={onClose}
+            className="text-slate-400 hover:text-white transition-colors text-2xl"
+          >
+            ×
+          </button>
+        </div>
+
+        {phase === 'setup' && (
+          <div className="p-6 rounded-2xl bg-slate-800 border border-slate-700">
+            <p className="text-sm text-slate-400 mb-4">
+              Both players get the same roll. Hand size and board come from your settings.
+            </p>
+
+            <h3 className="text-sm font-medium text-slate-400 mb-2">Players</h3>
+            <div className="flex gap-2 mb-6">
+              {names.map((name, i) => (
+                <input
+                  key={i}
+                  value={name}
+                  onChange={(e) => setNames(names.map((n, j) => (j === i ? e.target.value : n)))}
+                  maxLength={20}
+                  className="flex-1 min-w-0 px-3 py-2 rounded-xl bg-slate-700/40 border border-slate-600/30 text-white text-sm"
+                />
+              ))}
+            </div>
+
+            <h3 className="text-sm font-medium text-slate-400 mb-2">How to play</h3>
+            <div className="space-y-2 mb-6">
+              {LAYOUTS.map((option) => (
+                <button
+                  key={option.layout}
+                  onClick={() => setLayout(option.layout)}
+                  className={`w-full text-left px-4 py-3 rounded-xl border transition-all ${
+                    option.layout === layout
+                      ? 'bg-blue-500/20 border-blue-500/40'
+                      : 'bg-slate-700/40 border-slate-600/30 hover:bg-slate-700/70'
+                  }`}
+                >
+                  <p className="text-sm font-medium text-white">{option.label}</p>
+                  <p className="text-xs text-slate-400">{option.description}</p>
+                </button>
+              ))}
+            </div>
+
+            <button
+              onClick={handleStart}
+              disabled={names.some(n => !n.trim())}
+              className="w-full py-3 rounded-2xl font-semibold text-white bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-500 hover:to-indigo-500 transition-all disabled:opacity-50"
+            >
+              Start match
+            </button>
+            <button
+              onClick={() => {
+                setPlayers([]);
+                setPhase('network');
+              }}
+              disabled={!names[0].trim()}
+              className="mt-2 w-full py-2.5 rounded-2xl text-sm font-medium text-slate-300 bg-slate-700/40 hover:bg-slate-700/70 border border-slate-600/30 transition-all disabled:opacity-50"
+            >
+              🌐 Race on separate devices
+            </button>
+          </div>
+        )}
+
+        {phase === 'network' && <NetworkRace name={names[0].trim()} onBack={() => setPhase('setup')} />}
+
+        {phase === 'handoff' && players[turn] && (
+          <div className="p-8 rounded-2xl bg-slate-800 border border-slate-700 text-center">
+            <p className="text-5xl mb-4">📱</p>
+            <p className="text-lg text-white mb-1">Pass the device to {players[turn].name}</p>
+            <p className="text-sm text-slate-400 mb-6">Your clock starts when you&apos;re ready.</p>
+            <button
+              onClick={handleReady}
+              className="px-8 py-3 rounded-2xl font-semibold text-white bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-500 hover:to-indigo-500 transition-all"
+            >
+              I&apos;m ready
+            </button>
+          </div>
+        )}
+
+        {phase === 'playing' && (
+          <>
+            {layout === 'tabs' && !isOver && (
+              <p className="text-sm text-slate-400 text-center mb-4">
+                Racing the other tab - first valid board wins
+              </p>
+            )}
+
+            <div className={layout === 'split' ? 'grid grid-cols-2 gap-4' : ''}>
+              {visible.map((player) => {
+                const index = players.indexOf(player);
+                return (
+                  <MatchBoard
+                    key={index}
+                    player={player}
+                    now={now}
+                    isLocked={isOver}
+                    compact={layout === 'split'}
+                    onMove={(next) => handleMove(index, next)}
+                    onUndo={() => handleUndo(index)}
+                    onGiveUp={layout === 'turns' ? () => handleGiveUp(index) : undefined}
+                  />
+                );
+              })}
+            </div>
+          </>
+        )}
+
+        {/* Summary */}
+        {isOver && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="mt-6 p-6 rounded-2xl bg-slate-800 border border-slate-700"
+          >
+            <MatchResults summary={summary} />
+
+            {!joined && (
+              <button
+                onClick={handleStart}
+                className="mt-6 w-full py-3 rounded-2xl font-semibold text-white bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-500 hover:to-indigo-500 transition-all"
+              >
+                🎲 Rematch
+              </button>
+            )}
+          </motion.div>
+        )}
+      </div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,276 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import type { GameState } from '../lib/gameState';
+import { type MatchPlayer, type MatchSetup, createMatchPlayers, playMove, undoMove } from '../lib/match';
+import {
+  type RaceMessage,
+  type RaceState,
+  type RaceTransport,
+  RACE_COUNTDOWN_MS,
+  applyRaceEvent,
+  boardMessage,
+  createRace,
+  isRaceOver,
+  loadRaceRoom,
+  ownEvent,
+  saveRaceRoom,
+  summarizeRace,
+} from '../lib/race';
+import type { TransportEvent } from '../lib/transport';
+import { connectWebRtc } from '../lib/webrtcTransport';
+import { randomSeed } from '../lib/random';
+import { boardFromSettings, loadSettings } from '../lib/settings';
+import MatchBoard from './MatchBoard';
+import MatchResults from './MatchResults';
+
+// Ticks often enough for the countdown to change on time
+const TICK_MS = 250;
+
+interface NetworkRaceProps {
+  name: string;
+  onBack: () => void;
+}
+
+function formatTime(seconds: number): string {
+  return `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`;
+}
+
+// Race opponents on other devices: meet them in a room on the signaling server, then anyone
+// can deal a roll for everyone
+export default function NetworkRace({ name, onBack }: NetworkRaceProps) {
+  const [room, setRoom] = useState(loadRaceRoom);
+  const [transport, setTransport] = useState<RaceTransport | null>(null);
+  const [isConnecting, setIsConnecting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [race, setRace] = useState<RaceState | null>(null);
+  const [player, setPlayer] = useState<MatchPlayer | null>(null); // This device's board
+  const [now, setNow] = useState(0);
+  // The race as of the last event, so each event knows whether it dealt a new board
+  const raceRef = useRef<RaceState | null>(null);
+
+  const isOver = race !== null && isRaceOver(race);
+  const isRacing = race?.startsAt != null && !isOver;
+  const countdown = race?.startsAt != null ? Math.ceil((race.startsAt - now) / 1000) : 0;
+
+  // Apply an event, and deal this device's board whenever a start wins out (see race.ts)
+  const updateRace = useCallback((event: TransportEvent<RaceMessage>) => {
+    const prev = raceRef.current;
+    if (!prev) return;
+    const next = applyRaceEvent(prev, event, Date.now());
+    raceRef.current = next;
+    setRace(next);
+
+    if (next.setup && next.startsAt !== null && next.startsAt !== prev.startsAt) {
+      setPlayer(createMatchPlayers([name], next.setup, 'tabs', next.startsAt)[0]);
+      setNow(Date.now());
+    }
+  }, [name]);
+
+  useEffect(() => {
+    if (!transport) return;
+    return transport.subscribe(event => {
+      // Newly connected peers need to know who they're racing
+      if (event.type === 'peer-joined') transport.send({ type: 'hello', name });
+      updateRace(event);
+    });
+  }, [transport, name, updateRace]);
+
+  // Leaving the room (or the screen) drops every connection
+  useEffect(() => {
+    if (!transport) return;
+    return () => transport.close();
+  }, [transport]);
+
+  useEffect(() => {
+    if (!isRacing) return;
+    const interval = setInterval(() => setNow(Date.now()), TICK_MS);
+    return () => clearInterval(interval);
+  }, [isRacing]);
+
+  const send = useCallback((message: RaceMessage) => {
+    if (!transport) return;
+    transport.send(message);
+    if (raceRef.current) updateRace(ownEvent(raceRef.current, message));
+  }, [transport, updateRace]);
+
+  const handleConnect = useCallback(() => {
+    saveRaceRoom(room);
+    setIsConnecting(true);
+    setError(null);
+    connectWebRtc<RaceMessage>(room)
+      .then(connected => {
+        raceRef.current = createRace(connected.id, name);
+        setRace(raceRef.current);
+        setTransport(connected);
+      })
+      .catch((err: Error) => setError(err.message))
+      .finally(() => setIsConnecting(false));
+  }, [room, name]);
+
+  const handleLeave = useCallback(() => {
+    raceRef.current = null;
+    setTransport(null);
+    setRace(null);
+    setPlayer(null);
+  }, []);
+
+  const handleStart = useCallback(() => {
+    const settings = loadSettings();
+    const setup: MatchSetup = { seed: randomSeed(), handSize: settings.handSize, board: boardFromSettings(settings) };
+    send({ type: 'start', setup, countdownMs: RACE_COUNTDOWN_MS });
+  }, [send]);
+
+  const report = useCallback((next: MatchPlayer) => {
+    setPlayer(next);
+    const elapsed = next.startedAt === null ? 0 : Math.floor((Date.now() - next.startedAt) / 1000);
+    send(boardMessage(next.history.present, next.time ?? elapsed));
+  }, [send]);
+
+  const handleMove = useCallback((next: GameState) => {
+    if (!player || isOver || countdown > 0) return;
+    const moved = playMove(player, next, Date.now());
+    if (moved !== player) report(moved);
+  }, [player, isOver, countdown, report]);
+
+  const handleUndo = useCallback(() => {
+    if (player && !isOver) report(undoMove(player));
+  }, [player, isOver, report]);
+
+  if (!transport || !race) {
+    return (
+      <div className="p-6 rounded-2xl bg-slate-800 border border-slate-700">
+        <p className="text-sm text-slate-400 mb-4">
+          Everyone joins the same room, then anyone can deal. Start the signaling server on one
+          machine on the network with <code className="text-slate-300">npm run signaling</code>.
+        </p>
+
+        <h3 className="text-sm font-medium text-slate-400 mb-2">Signaling server</h3>
+        <input
+          value={room.signalingUrl}
+          onChange={(e) => setRoom({ ...room, signalingUrl: e.target.value })}
+          placeholder="http://192.168.1.20:8787"
+          className="w-full mb-4 px-3 py-2 rounded-xl bg-slate-700/40 border border-slate-600/30 text-white text-sm"
+        />
+
+        <h3 className="text-sm font-medium text-slate-400 mb-2">Room</h3>
+        <input
+          value={room.room}
+          onChange={(e) => setRoom({ ...room, room: e.target.value })}
+          maxLength={30}
+          className="w-full mb-6 px-3 py-2 rounded-xl bg-slate-700/40 border border-slate-600/30 text-white text-sm"
+        />
+
+        {error && <p className="text-sm text-red-400 mb-4">{error}</p>}
+
+        <div className="flex gap-2">
+          <button
+            onClick={onBack}
+            className="px-4 py-3 rounded-2xl text-sm font-medium text-slate-300 bg-slate-700/40 hover:bg-slate-700/70 border border-slate-600/30 transition-all"
+          >
+            Back
+          </button>
+          <button
+            onClick={handleConnect}
+            disabled={isConnecting || !room.signalingUrl.trim() || !room.room.trim()}
+            className="flex-1 py-3 rounded-2xl font-semibold text-white bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-500 hover:to-indigo-500 transition-all disabled:opacity-50"
+          >
+            {isConnecting ? 'Connecting...' : `Join as ${name}`}
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const opponents = race.peers.filter(p => p.id !== race.selfId);
+  const handSize = race.setup?.handSize ?? 0;
+
+  return (
+    <div>
+      {/* Room */}
+      <div className="p-4 mb-4 rounded-2xl bg-slate-800 border border-slate-700">
+        <div className="flex justify-between items-center mb-3">
+          <span className="text-sm text-slate-400">
+            Room <span className="font-medium text-white">{room.room}</span>
+          </span>
+          <button onClick={handleLeave} className="text-sm text-slate-400 hover:text-white transition-colors">
+            Leave
+          </button>
+        </div>
+
+        {opponents.length === 0 ? (
+          <p className="text-sm text-slate-500">Waiting for opponents to join...</p>
+        ) : (
+          <div className="space-y-2">
+            {opponents.map(peer => (
+              <div key={peer.id} className="text-sm">
+                <div className="flex justify-between mb-1">
+                  <span className="text-white">{peer.name}</span>
+                  <span className={`font-mono ${peer.time !== null ? 'text-green-400' : 'text-slate-400'}`}>
+                    {peer.time !== null
+                      ? `✓ ${formatTime(peer.time)}`
+                      : race.setup
+                        ? `${peer.placed}/${handSize} · ${peer.words.length} words`
+                        : 'Ready'}
+                  </span>
+                </div>
+                {race.setup && (
+                  <div className="h-1.5 rounded-full bg-slate-700 overflow-hidden">
+                    <div
+                      className="h-full bg-blue-500 transition-all"
+                      style={{ width: `${(peer.placed / handSize) * 100}%` }}
+                    />
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {!isRacing && (
+          <button
+            onClick={handleStart}
+            disabled={opponents.length === 0}
+            className="mt-4 w-full py-3 rounded-2xl font-semibold text-white bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-500 hover:to-indigo-500 transition-all disabled:opacity-50"
+          >
+            {race.setup ? '🎲 Rematch' : '🎲 Deal for everyone'}
+          </button>
+        )}
+      </div>
+
+      {isRacing && countdown > 0 && (
+        <motion.p
+          key={countdown}
+          initial={{ scale: 1.5, opacity: 0 }}
+          animate={{ scale: 1, opacity: 1 }}
+          className="py-12 text-center text-7xl font-bold text-white"
+        >
+          {countdown}
+        </motion.p>
+      )}
+
+      {player && (!isRacing || countdown <= 0) && (
+        <MatchBoard
+          player={player}
+          now={now}
+          isLocked={isOver}
+          compact={false}
+          onMove={handleMove}
+          onUndo={handleUndo}
+        />
+      )}
+
+      {/* Summary */}
+      {isOver && (
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="mt-6 p-6 rounded-2xl bg-slate-800 border border-slate-700"
+        >
+          <MatchResults summary={summarizeRace(race)} />
+        </motion.div>
+      )}
+    </div>
+  );
+}
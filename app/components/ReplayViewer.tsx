@@ -0,0 +1,236 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import type { GameState } from '../lib/gameState';
+import { type ReplayAction, type ReplayLog, buildReplayFrames, exportReplay } from '../lib/replay';
+import GameGrid from './GameGrid';
+import DiceTray from './DiceTray';
+
+const SPEEDS = [0.5, 1, 2, 4];
+
+// Long pauses are cut short so watching a slow game doesn't mean waiting through it
+const MAX_PAUSE_MS = 2000;
+
+interface ReplayViewerProps {
+  log: ReplayLog | null; // Null when closed
+  onClose: () => void;
+}
+
+function describeAction(action: ReplayAction, before: GameState): string {
+  const charOf = (id: string) => before.letters.find(l => l.id === id)?.char ?? '?';
+  switch (action.type) {
+    case 'place':
+      return `Placed ${charOf(action.letterId)}`;
+    case 'move':
+      return `Moved ${charOf(action.letterId)}`;
+    case 'remove':
+      return `Took back ${charOf(action.letterId)}`;
+    case 'swap':
+      return `Swapped ${charOf(action.letterId)} and ${charOf(action.otherId)}`;
+    case 'shuffle':
+      return 'Shook the tray';
+    case 'reroll':
+      return `Re-rolled ${charOf(action.letterId)} into ${action.char}`;
+    case 'solve':
+      return action.placements.length > 0 ? 'Revealed a solution' : 'Asked for a solution';
+    case 'undo':
+      return 'Undo';
+    case 'redo':
+      return 'Redo';
+  }
+}
+
+function formatElapsed(ms: number): string {
+  const seconds = Math.floor(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`;
+}
+
+const noop = () => {};
+
+export default function ReplayViewer({ log, onClose }: ReplayViewerProps) {
+  const frames = useMemo(() => (log ? buildReplayFrames(log) : []), [log]);
+  const [frame, setFrame] = useState(0); // Events applied so far
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+
+  const eventCount = log?.events.length ?? 0;
+
+  // Step to the next event after the same pause the player took (scaled by the speed)
+  useEffect(() => {
+    if (!log || !isPlaying || frame >= eventCount) return;
+
+    const previousAt = frame > 0 ? log.events[frame - 1].at : 0;
+    const pause = Math.min(log.events[frame].at - previousAt, MAX_PAUSE_MS) / speed;
+    const timeout = setTimeout(() => {
+      setFrame(frame + 1);
+      if (frame + 1 >= eventCount) setIsPlaying(false);
+    }, pause);
+    return () => clearTimeout(timeout);
+  }, [log, isPlaying, frame, eventCount, speed]);
+
+  const handlePlayPause = useCallback(() => {
+    if (isPlaying) {
+      setIsPlaying(false);
+      return;
+    }
+    // Playing from the end starts over
+    if (frame >= eventCount) setFrame(0);
+    setIsPlaying(true);
+  }, [isPlaying, frame, eventCount]);
+
+  const handleExport = useCallback(() => {
+    if (!log) return;
+    const url = URL.createObjectURL(new Blob([exportReplay(log)], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `qless-replay-${log.seed}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }, [log]);
+
+  const state = frames[frame];
+  const current = log && frame > 0 ? log.events[frame - 1] : null;
+
+  return (
+    <AnimatePresence>
+      {log && state && (
+        <>
+          {/* Backdrop */}
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50"
+            onClick={onClose}
+          />
+
+          {/* Modal */}
+          <motion.div
+            initial={{ opacity: 0, scale: 0.9, y: 20 }}
+            animate={{ opacity: 1, scale: 1, y: 0 }}
+            exit={{ opacity: 0, scale: 0.9, y: 20 }}
+            className="fixed inset-0 flex items-center justify-center z-50 p-4 pointer-events-none"
+          >
+            <div className="bg-slate-800 rounded-2xl p-6 max-w-xl w-full max-h-full overflow-y-auto shadow-2xl border border-slate-700 pointer-events-auto">
+              {/* Header */}
+              <div className="flex justify-between items-center mb-4">
+                <h2 className="text-2xl font-bold text-white">Replay</h2>
+                <button
+                  onClick={onClose}
+                  className="text-slate-400 hover:text-white transition-colors text-2xl"
+                >
+                  ×
+                </button>
+              </div>
+
+              {/* Board at the current event - read-only */}
+              <div className="mb-3 pointer-events-none">
+                <GameGrid
+                  grid={state.grid}
+                  words={state.words}
+                  onDrop={noop}
+                  onDragOver={noop}
+                  onLetterDragStart={noop}
+                  onLetterDragEnd={noop}
+                  onLetterClick={noop}
+                  onCellClick={noop}
+                  draggingLetter={null}
+                  selectedLetterId={null}
+                  movingLetterId={null}
+                />
+              </div>
+              <div className="mb-4 pointer-events-none">
+                <DiceTray
+                  letters={state.letters}
+                  onDragStart={noop}
+                  onDragEnd={noop}
+                  onLetterClick={noop}
+                  draggingLetter={null}
+                  selectedLetterId={null}
+                />
+              </div>
+
+              {/* Current event */}
+              <div className="flex justify-between text-sm mb-2">
+                <span className="text-slate-300">
+                  {current ? describeAction(current.action, frames[frame - 1]) : 'Start'}
+                </span>
+                <span className="text-slate-500 font-mono">
+                  {formatElapsed(current?.at ?? 0)} · {frame}/{eventCount}
+                </span>
+              </div>
+
+              {/* Scrubber */}
+              <input
+                type="range"
+                min={0}
+                max={eventCount}
+                value={frame}
+                onChange={(e) => {
+                  setIsPlaying(false);
+                  setFrame(Number(e.target.value));
+                }}
+                className="w-full mb-4 accent-blue-500"
+              />
+
+              {/* Controls */}
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={() => {
+                    setIsPlaying(false);
+                    setFrame(Math.max(frame - 1, 0));
+                  }}
+                  className="px-3 py-2 rounded-xl bg-slate-700/50 hover:bg-slate-600/50 border border-slate-600/30 text-slate-200 transition-all"
+                  title="Previous step"
+                >
+                  ⏮
+                </button>
+                <button
+                  onClick={handlePlayPause}
+                  disabled={eventCount === 0}
+                  className="px-4 py-2 rounded-xl bg-blue-600 hover:bg-blue-500 text-white font-medium transition-all disabled:opacity-50"
+                >
+                  {isPlaying ? '⏸ Pause' : '▶ Play'}
+                </button>
+                <button
+                  onClick={() => {
+                    setIsPlaying(false);
+                    setFrame(Math.min(frame + 1, eventCount));
+                  }}
+                  className="px-3 py-2 rounded-xl bg-slate-700/50 hover:bg-slate-600/50 border border-slate-600/30 text-slate-200 transition-all"
+                  title="Next step"
+                >
+                  ⏭
+                </button>
+
+                <div className="ml-auto flex gap-1 text-xs">
+                  {SPEEDS.map((s) => (
+                    <button
+                      key={s}
+                      onClick={() => setSpeed(s)}
+                      className={`px-2 py-1 rounded-lg border transition-all ${
+                        s === speed
+                          ? 'bg-blue-500/20 border-blue-500/40 text-white'
+                          : 'border-slate-600/30 text-slate-400 hover:text-slate-200'
+                      }`}
+                    >
+                      {s}×
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <button
+                onClick={handleExport}
+                className="mt-4 w-full py-2 px-4 rounded-xl text-sm font-medium text-slate-300 bg-slate-700/40 hover:bg-slate-700/70 border border-slate-600/30 transition-all"
+              >
+                💾 Export as JSON
+              </button>
+            </div>
+          </motion.div>
+        </>
+      )}
+    </AnimatePresence>
+  );
+}
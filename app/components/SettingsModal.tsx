@@ -0,0 +1,239 @@
+'use client';
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import {
+  type LexiconOption,
+  DEFAULT_LEXICON_ID,
+  deleteCustomLexicon,
+  importCustomLexicon,
+  listLexiconOptions,
+} from '../lib/lexiconStore';
+import { type GameSettings, REROLL_PENALTY_OPTIONS, TIME_LIMIT_OPTIONS } from '../lib/settings';
+import { GRID_SIZE_OPTIONS } from '../lib/board';
+
+interface SettingsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  activeLexiconId: string;
+  onSelectLexicon: (id: string) => void;
+  settings: GameSettings | null;
+  onChangeSettings: (changes: Partial<GameSettings>) => void;
+}
+
+export default function SettingsModal({
+  isOpen,
+  onClose,
+  activeLexiconId,
+  onSelectLexicon,
+  settings,
+  onChangeSettings,
+}: SettingsModalProps) {
+  const [options, setOptions] = useState<LexiconOption[]>([]);
+  const [isImporting, setIsImporting] = useState(false);
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const refreshOptions = useCallback(() => {
+    listLexiconOptions().then(setOptions);
+  }, []);
+
+  useEffect(() => {
+    if (isOpen) refreshOptions();
+  }, [isOpen, refreshOptions]);
+
+  const handleImport = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setIsImporting(true);
+    setImportError(null);
+    try {
+      const lexicon = await importCustomLexicon(file.name.replace(/\.[^.]+$/, ''), await file.text());
+      refreshOptions();
+      onSelectLexicon(lexicon.id);
+    } catch (err) {
+      setImportError(err instanceof Error ? err.message : 'Import failed');
+    } finally {
+      setIsImporting(false);
+    }
+  }, [refreshOptions, onSelectLexicon]);
+
+  const handleDelete = useCallback(async (id: string) => {
+    await deleteCustomLexicon(id);
+    if (id === activeLexiconId) {
+      onSelectLexicon(DEFAULT_LEXICON_ID);
+    }
+    refreshOptions();
+  }, [activeLexiconId, onSelectLexicon, refreshOptions]);
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <>
+          {/* Backdrop */}
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50"
+            onClick={onClose}
+          />
+
+          {/* Modal */}
+          <motion.div
+            initial={{ opacity: 0, scale: 0.9, y: 20 }}
+            animate={{ opacity: 1, scale: 1, y: 0 }}
+            exit={{ opacity: 0, scale: 0.9, y: 20 }}
+            className="fixed inset-0 flex items-center justify-center z-50 p-4 pointer-events-none"
+          >
+            <div className="bg-slate-800 rounded-2xl p-6 max-w-sm w-full shadow-2xl border border-slate-700 pointer-events-auto">
+              {/* Header */}
+              <div className="flex justify-between items-center mb-6">
+                <h2 className="text-2xl font-bold text-white">Settings</h2>
+                <button
+                  onClick={onClose}
+                  className="text-slate-400 hover:text-white transition-colors text-2xl"
+                >
+                  ×
+                </button>
+              </div>
+
+              {/* Word list picker */}
+              <h3 className="text-sm font-medium text-slate-400 mb-3">Word List</h3>
+              <div className="space-y-2 mb-4">
+                {options.map((option) => (
+                  <div
+                    key={option.id}
+                    onClick={() => onSelectLexicon(option.id)}
+                    className={`flex items-center justify-between p-3 rounded-xl cursor-pointer border transition-all ${
+                      option.id === activeLexiconId
+                        ? 'bg-blue-500/20 border-blue-500/40'
+                        : 'bg-slate-700/40 border-slate-600/30 hover:bg-slate-700/70'
+                    }`}
+                  >
+                    <div>
+                      <p className="text-white font-medium">{option.name}</p>
+                      <p className="text-xs text-slate-400">{option.description}</p>
+                    </div>
+                    {option.isCustom && (
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handleDelete(option.id);
+                        }}
+                        className="text-slate-500 hover:text-red-400 transition-colors px-2"
+                        title="Remove this list"
+                      >
+                        🗑
+                      </button>
+                    )}
+                  </div>
+                ))}
+              </div>
+
+              {/* Import */}
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".txt,text/plain"
+                onChange={handleImport}
+                className="hidden"
+              />
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                disabled={isImporting}
+                className="w-full py-3 px-4 rounded-xl font-medium text-slate-200 bg-slate-700/60 hover:bg-slate-600/60 border border-slate-600/40 transition-all disabled:opacity-50"
+              >
+                {isImporting ? 'Importing...' : '📄 Import word list (.txt)'}
+              </button>
+              <p className="mt-2 text-xs text-slate-500">
+                One word per line. The solver and word checks both use the selected list.
+              </p>
+              {importError && (
+                <p className="mt-2 text-xs text-red-400">{importError}</p>
+              )}
+
+              {/* Re-roll penalty */}
+              {settings && (
+                <>
+                  <h3 className="text-sm font-medium text-slate-400 mt-6 mb-3">Re-roll Penalty</h3>
+                  <div className="flex gap-2">
+                    {REROLL_PENALTY_OPTIONS.map((seconds) => (
+                      <button
+                        key={seconds}
+                        onClick={() => onChangeSettings({ rerollPenaltySeconds: seconds })}
+                        className={`flex-1 py-2 rounded-xl text-sm font-medium border transition-all ${
+                          seconds === settings.rerollPenaltySeconds
+                            ? 'bg-blue-500/20 border-blue-500/40 text-white'
+                            : 'bg-slate-700/40 border-slate-600/30 text-slate-300 hover:bg-slate-700/70'
+                        }`}
+                      >
+                        {seconds}s
+                      </button>
+                    ))}
+                  </div>
+                  <p className="mt-2 text-xs text-slate-500">
+                    Added to the clock each time you re-roll a die.
+                  </p>
+
+                  {/* Time limit */}
+                  <h3 className="text-sm font-medium text-slate-400 mt-6 mb-3">Time Limit</h3>
+                  <div className="flex gap-2">
+                    {TIME_LIMIT_OPTIONS.map((seconds) => (
+                      <button
+                        key={seconds}
+                        onClick={() => onChangeSettings({ timeLimitSeconds: seconds })}
+                        className={`flex-1 py-2 rounded-xl text-sm font-medium border transition-all ${
+                          seconds === settings.timeLimitSeconds
+                            ? 'bg-blue-500/20 border-blue-500/40 text-white'
+                            : 'bg-slate-700/40 border-slate-600/30 text-slate-300 hover:bg-slate-700/70'
+                        }`}
+                      >
+                        {seconds / 60}m
+                      </button>
+                    ))}
+                  </div>
+                  <p className="mt-2 text-xs text-slate-500">
+                    For Countdown games and Blitz sessions. Takes effect from the next one.
+                  </p>
+
+                  {/* Board size */}
+                  <h3 className="text-sm font-medium text-slate-400 mt-6 mb-3">Board Size</h3>
+                  <div className="flex gap-2">
+                    {GRID_SIZE_OPTIONS.map((size) => (
+                      <button
+                        key={size}
+                        onClick={() => onChangeSettings({ gridSize: size })}
+                        className={`flex-1 py-2 rounded-xl text-sm font-medium border transition-all ${
+                          size === settings.gridSize
+                            ? 'bg-blue-500/20 border-blue-500/40 text-white'
+                            : 'bg-slate-700/40 border-slate-600/30 text-slate-300 hover:bg-slate-700/70'
+                        }`}
+                      >
+                        {size}×{size}
+                      </button>
+                    ))}
+                  </div>
+                  <label className="mt-3 flex items-center gap-3 text-sm text-slate-300 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={settings.autoExpandGrid}
+                      onChange={(e) => onChangeSettings({ autoExpandGrid: e.target.checked })}
+                      className="accent-blue-500"
+                    />
+                    Grow the board when letters reach an edge
+                  </label>
+                  <p className="mt-2 text-xs text-slate-500">
+                    Takes effect from the next game.
+                  </p>
+                </>
+              )}
+            </div>
+          </motion.div>
+        </>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -1,7 +1,18 @@
 'use client';
 
 import { motion, AnimatePresence } from 'framer-motion';
-import type { GameStats } from '../lib/stats';
+import type { PlayMode } from '../lib/gameState';
+import { type GameStats, getStatsByHandSize, getTimedStats, getWinsByLexicon } from '../lib/stats';
+
+const MODE_NAMES: Record<PlayMode, string> = {
+  free: 'Free Play',
+  classic: 'Classic',
+  daily: 'Daily',
+  shared: 'Shared puzzles',
+  countdown: 'Countdown',
+  blitz: 'Blitz',
+  zen: 'Zen', // Never scored
+};
 
 interface StatsModalProps {
   isOpen: boolean;
@@ -25,6 +36,13 @@ export default function StatsModal({ isOpen, onClose, stats }: StatsModalProps)
     return `${mins}m`;
   };
 
+  const winsByLexicon = getWinsByLexicon(stats);
+  const statsByHandSize = getStatsByHandSize(stats);
+  const timedStats = getTimedStats(stats);
+  const highScores = (Object.keys(MODE_NAMES) as PlayMode[])
+    .filter(mode => stats.highScores[mode] !== undefined)
+    .map(mode => ({ mode, score: stats.highScores[mode]! }));
+
   const winRate = stats.gamesPlayed > 0
     ? Math.round((stats.gamesWon / stats.gamesPlayed) * 100)
     : 0;
@@ -101,10 +119,18 @@ export default function StatsModal({ isOpen, onClose, stats }: StatsModalProps)
                     {formatPlayTime(stats.totalPlayTime)}
                   </span>
                 </div>
+                {stats.concedes > 0 && (
+                  <div className="flex justify-between">
+                    <span className="text-slate-400">Correct Concedes</span>
+                    <span className="text-white font-mono">
+                      {stats.correctConcedes}/{stats.concedes}
+                    </span>
+                  </div>
+                )}
               </div>
 
               {/* Additional Stats */}
-              <div className="grid grid-cols-3 gap-2 text-center text-sm">
+              <div className="grid grid-cols-4 gap-2 text-center text-sm">
                 <div>
                   <p className="text-lg font-bold text-slate-300">{stats.perfectGames}</p>
                   <p className="text-slate-500">Perfect</p>
@@ -117,8 +143,81 @@ export default function StatsModal({ isOpen, onClose, stats }: StatsModalProps)
                   <p className="text-lg font-bold text-slate-300">{stats.solvesUsed}</p>
                   <p className="text-slate-500">Solves</p>
                 </div>
+                <div>
+                  <p className="text-lg font-bold text-slate-300">{stats.rerollsUsed}</p>
+                  <p className="text-slate-500">Re-rolls</p>
+                </div>
               </div>
 
+              {/* Wins per word list */}
+              {winsByLexicon.length > 0 && (
+                <div className="mt-6 pt-4 border-t border-slate-700">
+                  <h3 className="text-sm font-medium text-slate-400 mb-3">Wins by Word List</h3>
+                  {winsByLexicon.map(({ lexicon, wins }) => (
+                    <div key={lexicon} className="flex justify-between text-sm mb-1">
+                      <span className="text-slate-300">{lexicon}</span>
+                      <span className="text-white font-mono">{wins}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {/* Best score per mode */}
+              {highScores.length > 0 && (
+                <div className="mt-6 pt-4 border-t border-slate-700">
+                  <h3 className="text-sm font-medium text-slate-400 mb-3">High Scores</h3>
+                  {highScores.map(({ mode, score }) => (
+                    <div key={mode} className="flex justify-between text-sm mb-1">
+                      <span className="text-slate-300">{MODE_NAMES[mode]}</span>
+                      <span className="text-white font-mono">{score}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {/* Records per hand size */}
+              {statsByHandSize.length > 0 && (
+                <div className="mt-6 pt-4 border-t border-slate-700">
+                  <h3 className="text-sm font-medium text-slate-400 mb-3">By Hand Size</h3>
+                  {statsByHandSize.map(({ handSize, gamesPlayed, gamesWon, bestTime }) => (
+                    <div key={handSize} className="flex justify-between text-sm mb-1">
+                      <span className="text-slate-300">{handSize} letters</span>
+                      <span className="text-white font-mono">
+                        {gamesWon}/{gamesPlayed} · {bestTime !== null ? formatTime(bestTime) : '--:--'}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {/* Countdown and Blitz records per time limit */}
+              {timedStats.length > 0 && (
+                <div className="mt-6 pt-4 border-t border-slate-700">
+                  <h3 className="text-sm font-medium text-slate-400 mb-3">Timed Challenges</h3>
+                  {timedStats.map(({ limit, countdown, blitz }) => (
+                    <div key={limit} className="mb-2">
+                      <p className="text-xs text-slate-500 mb-1">{formatTime(limit)} limit</p>
+                      {countdown && (
+                        <div className="flex justify-between text-sm mb-1">
+                          <span className="text-slate-300">Countdown</span>
+                          <span className="text-white font-mono">
+                            {countdown.gamesWon}/{countdown.gamesPlayed} · {countdown.bestTime !== null ? formatTime(countdown.bestTime) : '--:--'}
+                          </span>
+                        </div>
+                      )}
+                      {blitz && (
+                        <div className="flex justify-between text-sm mb-1">
+                          <span className="text-slate-300">Blitz</span>
+                          <span className="text-white font-mono">
+                            best {blitz.bestSession} · {blitz.boardsSolved} in {blitz.sessions}
+                          </span>
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+
               {/* Milestones */}
               {stats.milestones.length > 0 && (
                 <div className="mt-6 pt-4 border-t border-slate-700">
@@ -1,18 +1,87 @@
 'use client';
 
-import { useEffect, useCallback } from 'react';
+import { useEffect, useCallback, useMemo, useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import confetti from 'canvas-confetti';
-import { WordResult } from '../lib/gameState';
+import { Letter, WordResult } from '../lib/gameState';
+import { type EnumerateResult, type Placement, layoutKey } from '../lib/exactSolver';
+import type { ScoreBreakdown } from '../lib/scoring';
+
+// Solutions found for the roll so far; status stays 'searching' until the list is final
+export interface Alternates {
+  solutions: Placement[][];
+  status: 'searching' | EnumerateResult['status'];
+}
+
+interface Cell {
+  row: number;
+  col: number;
+  char: string;
+}
 
 interface WinModalProps {
   isOpen: boolean;
   words: WordResult[];
-  time: number;
+  letters: Letter[];
+  alternates: Alternates;
+  time: number | null; // Null in Zen, which has no clock
+  score: ScoreBreakdown | null;
+  isHighScore: boolean; // Beat the best score in this mode
   onNewGame: () => void;
+  onShare?: () => void;
+  onWatchReplay?: () => void;
 }
 
-export default function WinModal({ isOpen, words, time, onNewGame }: WinModalProps) {
+// A layout cropped to its letters, small enough to sit two side by side
+function MiniGrid({ cells }: { cells: Cell[] }) {
+  const top = Math.min(...cells.map(c => c.row));
+  const left = Math.min(...cells.map(c => c.col));
+  const rows = Math.max(...cells.map(c => c.row)) - top + 1;
+  const cols = Math.max(...cells.map(c => c.col)) - left + 1;
+
+  return (
+    <div
+      className="grid gap-0.5 mx-auto w-fit"
+      style={{ gridTemplateColumns: `repeat(${cols}, 1.25rem)`, gridTemplateRows: `repeat(${rows}, 1.25rem)` }}
+    >
+      {cells.map(c => (
+        <div
+          key={`${c.row}-${c.col}`}
+          className="flex items-center justify-center rounded bg-amber-100 text-slate-900 text-xs font-bold uppercase"
+          style={{ gridRow: c.row - top + 1, gridColumn: c.col - left + 1 }}
+        >
+          {c.char}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function describeAlternates(count: number, status: Alternates['status']): string {
+  const plural = count === 1 ? 'solution' : 'solutions';
+  switch (status) {
+    case 'searching':
+      return count === 0 ? 'Looking for other solutions...' : `Found ${count} other ${plural} so far...`;
+    case 'complete':
+      return count === 0 ? 'Yours is the only solution!' : `${count} other ${plural}`;
+    default:
+      return `At least ${count} other ${plural}`;
+  }
+}
+
+export default function WinModal({
+  isOpen,
+  words,
+  letters,
+  alternates,
+  time,
+  score,
+  isHighScore,
+  onNewGame,
+  onShare,
+  onWatchReplay,
+}: WinModalProps) {
+  const [viewing, setViewing] = useState(0);
   const triggerConfetti = useCallback(() => {
     const duration = 3000;
     const end = Date.now() + duration;
@@ -64,6 +133,31 @@ export default function WinModal({ isOpen, words, time, onNewGame }: WinModalPro
   };
 
   const validWords = words.filter(w => w.isValid);
+  const scoreLines: [string, number][] = score
+    ? [
+        ['Letters', score.letterPoints],
+        ['Long words', score.lengthBonus],
+        ['Fewer words', score.fewerWordsBonus],
+        ['Time bonus', score.timeBonus],
+        ['Shuffles', score.shufflePenalty],
+      ]
+    : [];
+
+  const playerCells = useMemo(
+    () => letters.flatMap(l => (l.position ? [{ ...l.position, char: l.char }] : [])),
+    [letters]
+  );
+
+  // Everything but the player's own layout, wherever it sat on the board
+  const others = useMemo(() => {
+    const chars = new Map(letters.map(l => [l.id, l.char]));
+    const playerKey = playerCells.length > 0 ? layoutKey(playerCells) : '';
+    return alternates.solutions
+      .map(solution => solution.map(p => ({ row: p.row, col: p.col, char: chars.get(p.letterId) ?? '' })))
+      .filter(cells => layoutKey(cells) !== playerKey);
+  }, [alternates.solutions, letters, playerCells]);
+
+  const shown = Math.min(viewing, others.length - 1);
 
   return (
     <AnimatePresence>
@@ -114,7 +208,7 @@ export default function WinModal({ isOpen, words, time, onNewGame }: WinModalPro
                 transition={{ delay: 0.3 }}
                 className="text-slate-400 mb-6"
               >
-                All 12 letters used in {validWords.length} valid words
+                All {letters.length} letters used in {validWords.length} valid words
               </motion.p>
 
               {/* Stats */}
@@ -125,16 +219,43 @@ export default function WinModal({ isOpen, words, time, onNewGame }: WinModalPro
                 className="mb-6 p-4 rounded-xl bg-slate-700/50"
               >
                 <div className="flex justify-around">
-                  <div>
-                    <p className="text-2xl font-bold text-green-400">{formatTime(time)}</p>
-                    <p className="text-xs text-slate-400">Time</p>
-                  </div>
-                  <div className="w-px bg-slate-600" />
+                  {time !== null && (
+                    <>
+                      <div>
+                        <p className="text-2xl font-bold text-green-400">{formatTime(time)}</p>
+                        <p className="text-xs text-slate-400">Time</p>
+                      </div>
+                      <div className="w-px bg-slate-600" />
+                    </>
+                  )}
                   <div>
                     <p className="text-2xl font-bold text-blue-400">{validWords.length}</p>
                     <p className="text-xs text-slate-400">Words</p>
                   </div>
+                  {score && (
+                    <>
+                      <div className="w-px bg-slate-600" />
+                      <div>
+                        <p className="text-2xl font-bold text-amber-400">{score.total}</p>
+                        <p className="text-xs text-slate-400">{isHighScore ? 'New high score!' : 'Score'}</p>
+                      </div>
+                    </>
+                  )}
                 </div>
+
+                {/* How the score adds up */}
+                {scoreLines.length > 0 && (
+                  <div className="mt-4 pt-3 border-t border-slate-600 text-sm space-y-1">
+                    {scoreLines.map(([label, points]) => (
+                      <div key={label} className="flex justify-between">
+                        <span className="text-slate-400">{label}</span>
+                        <span className={`font-mono ${points < 0 ? 'text-red-400' : 'text-slate-200'}`}>
+                          {points > 0 ? `+${points}` : points}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
               </motion.div>
 
               {/* Words list */}
@@ -157,6 +278,48 @@ export default function WinModal({ isOpen, words, time, onNewGame }: WinModalPro
                 ))}
               </motion.div>
 
+              {/* Other solutions */}
+              <motion.div
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 1 }}
+                transition={{ delay: 0.55 }}
+                className="mb-6"
+              >
+                <p className="text-sm text-slate-400 mb-3">
+                  {describeAlternates(others.length, alternates.status)}
+                </p>
+                {others.length > 0 && playerCells.length > 0 && (
+                  <div className="flex items-start justify-center gap-6">
+                    <div>
+                      <MiniGrid cells={playerCells} />
+                      <p className="mt-2 text-xs text-slate-400">Yours</p>
+                    </div>
+                    <div>
+                      <MiniGrid cells={others[shown]} />
+                      <div className="mt-1 flex items-center justify-center gap-2 text-xs text-slate-400">
+                        <button
+                          onClick={() => setViewing(Math.max(shown - 1, 0))}
+                          disabled={shown === 0}
+                          className="px-2 py-1 rounded hover:bg-slate-700/50 disabled:opacity-30"
+                          aria-label="Previous solution"
+                        >
+                          ‹
+                        </button>
+                        <span>{shown + 1} / {others.length}</span>
+                        <button
+                          onClick={() => setViewing(Math.min(shown + 1, others.length - 1))}
+                          disabled={shown === others.length - 1}
+                          className="px-2 py-1 rounded hover:bg-slate-700/50 disabled:opacity-30"
+                          aria-label="Next solution"
+                        >
+                          ›
+                        </button>
+                      </div>
+                    </div>
+                  </div>
+                )}
+              </motion.div>
+
               {/* New Game button */}
               <motion.button
                 initial={{ opacity: 0, y: 20 }}
@@ -169,6 +332,30 @@ export default function WinModal({ isOpen, words, time, onNewGame }: WinModalPro
               >
                 Play Again
               </motion.button>
+
+              {onShare && (
+                <motion.button
+                  initial={{ opacity: 0 }}
+                  animate={{ opacity: 1 }}
+                  transition={{ delay: 0.7 }}
+                  onClick={onShare}
+                  className="mt-3 w-full py-3 px-8 rounded-xl font-medium text-slate-300 bg-slate-700/50 hover:bg-slate-600/50 border border-slate-600/40 transition-all"
+                >
+                  🔗 Share Solution
+                </motion.button>
+              )}
+
+              {onWatchReplay && (
+                <motion.button
+                  initial={{ opacity: 0 }}
+                  animate={{ opacity: 1 }}
+                  transition={{ delay: 0.8 }}
+                  onClick={onWatchReplay}
+                  className="mt-3 w-full py-3 px-8 rounded-xl font-medium text-slate-300 bg-slate-700/50 hover:bg-slate-600/50 border border-slate-600/40 transition-all"
+                >
+                  🎬 Watch Replay
+                </motion.button>
+              )}
             </div>
           </motion.div>
         </motion.div>
@@ -0,0 +1,57 @@
+// Q-Less Board Geometry
+// The one place the board's dimensions are set. Boards start square; an auto-expanding
+// board starts at the chosen size and grows a row or column whenever a letter lands on
+// an edge, so a layout never runs out of room
+
+export const DEFAULT_GRID_SIZE = 8;
+
+// Sizes offered in settings. Share codes address an 8x8 board, so none are smaller
+export const GRID_SIZE_OPTIONS = [8, 10, 12];
+
+// Smallest board for hands past the standard twelve letters, so longer words still fit
+const HAND_GRID_SIZES: Record<number, number> = {
+  15: 10,
+  20: 12,
+};
+
+// An auto-expanding board stops growing here either way, to keep the cells on screen
+export const MAX_EXPANDED_SIZE = 16;
+
+export interface BoardConfig {
+  size: number; // Rows and columns to start with
+  autoExpand: boolean;
+}
+
+// A game's grid as it stands - an auto-expanding board may have grown past its starting size
+export interface BoardShape {
+  rows: number;
+  cols: number;
+  autoExpand: boolean;
+}
+
+export const DEFAULT_BOARD: BoardConfig = {
+  size: DEFAULT_GRID_SIZE,
+  autoExpand: false,
+};
+
+/**
+ * Rows and columns the solvers may use for a board
+ * A hand never spans more rows or columns than it has letters, so an auto-expanding board is
+ * searched as if it were that size - up to the most it can grow to
+ * @param size - The board's size, or the smaller side of a grid that isn't square
+ * @param handSize - Letters the solution has to use
+ */
+export function solverGridSize(size: number, autoExpand: boolean, handSize: number): number {
+  return autoExpand ? Math.max(size, Math.min(handSize, MAX_EXPANDED_SIZE)) : size;
+}
+
+/**
+ * The board to deal a hand of this size on - the configured one, grown if the hand needs more room
+ */
+export function boardForHand(board: BoardConfig, handSize: number): BoardConfig {
+  return { ...board, size: Math.max(board.size, HAND_GRID_SIZES[handSize] ?? DEFAULT_GRID_SIZE) };
+}
+
+export function createGrid<T>(rows: number, cols: number): (T | null)[][] {
+  return Array.from({ length: rows }, () => Array<T | null>(cols).fill(null));
+}
@@ -0,0 +1,27 @@
+// Q-Less Timed Challenges
+// The clock still counts up; timed modes set a limit on it. A countdown game is lost if the
+// board isn't won before the limit, and a Blitz session keeps dealing fresh rolls on the same
+// clock, scoring how many get solved before it runs out
+
+import type { PlayMode } from './gameState';
+
+export const DEFAULT_TIME_LIMIT_SECONDS = 180;
+
+// The clock turns to a warning for the last stretch - this long, or a quarter of a short limit
+const LOW_TIME_SECONDS = 30;
+
+export function isTimedMode(mode: PlayMode): boolean {
+  return mode === 'countdown' || mode === 'blitz';
+}
+
+/**
+ * Seconds left before the limit, never below zero
+ * @param elapsed - The game's clock, re-roll penalties included
+ */
+export function timeRemaining(limit: number, elapsed: number): number {
+  return Math.max(limit - elapsed, 0);
+}
+
+export function isLowOnTime(limit: number, elapsed: number): boolean {
+  return timeRemaining(limit, elapsed) <= Math.min(LOW_TIME_SECONDS, limit / 4);
+}
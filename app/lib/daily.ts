@@ -0,0 +1,115 @@
+// Q-Less Daily Puzzle
+// Everyone gets the same roll for a calendar date; results are kept apart from free-play stats
+
+import { type GameState, createInitialState, createStateFromLetters } from './gameState';
+import { loadBuiltInDictionary } from './dictionary';
+import { dealDailyInWorker } from './solverClient';
+
+const DAILY_KEY = 'qless-daily';
+
+export interface DailyResult {
+  date: string; // YYYY-MM-DD
+  seed: number;
+  time: number;
+  hintsUsed: boolean;
+  solved: boolean;
+}
+
+interface DailyStore {
+  seeds: Record<string, number>; // Verified seed per date, so the check runs once a day
+  rolls: Record<string, string>; // Letters for dates where no seed passed and a pooled roll was dealt
+  results: Record<string, DailyResult>;
+}
+
+const DEFAULT_STORE: DailyStore = {
+  seeds: {},
+  rolls: {},
+  results: {},
+};
+
+function loadStore(): DailyStore {
+  if (typeof window === 'undefined') return DEFAULT_STORE;
+
+  try {
+    const saved = localStorage.getItem(DAILY_KEY);
+    if (saved) {
+      return { ...DEFAULT_STORE, ...JSON.parse(saved) };
+    }
+  } catch {
+    // Ignore errors
+  }
+  return DEFAULT_STORE;
+}
+
+function saveStore(store: DailyStore): void {
+  if (typeof window === 'undefined') return;
+
+  try {
+    localStorage.setItem(DAILY_KEY, JSON.stringify(store));
+  } catch {
+    // Ignore errors
+  }
+}
+
+/**
+ * Get the daily puzzle key for a date, in the player's local calendar
+ * @param now - Defaults to today
+ * @returns Date formatted as YYYY-MM-DD
+ */
+export function getDailyDate(now: Date = new Date()): string {
+  const year = now.getFullYear();
+  const month = (now.getMonth() + 1).toString().padStart(2, '0');
+  const day = now.getDate().toString().padStart(2, '0');
+  return `${year}-${month}-${day}`;
+}
+
+/**
+ * Deal the daily puzzle for a date
+ * The roll is picked in the solver worker (see dealDaily) and remembered for the rest of the day
+ * @param date - Date key from getDailyDate
+ */
+export async function createDailyState(date: string): Promise<GameState> {
+  const store = loadStore();
+  const cachedSeed = store.seeds[date];
+  if (cachedSeed !== undefined) {
+    return createInitialState(cachedSeed);
+  }
+  const cachedRoll = store.rolls[date];
+  if (cachedRoll !== undefined) {
+    return createStateFromLetters(cachedRoll.split(''));
+  }
+
+  // Pinned to TWL06 so every device picks the same roll whatever word list the player has selected
+  const dictionary = await loadBuiltInDictionary('twl06');
+  const dealt = await dealDailyInWorker(date, dictionary).result;
+  if (!dealt) throw new Error('Daily deal was cancelled');
+
+  const { state } = dealt;
+  saveStore(
+    dealt.source === 'pool'
+      ? { ...store, rolls: { ...store.rolls, [date]: state.letters.map(l => l.char).join('') } }
+      : { ...store, seeds: { ...store.seeds, [date]: state.seed } }
+  );
+  return state;
+}
+
+export function getDailyResult(date: string): DailyResult | null {
+  return loadStore().results[date] || null;
+}
+
+export function getDailyResults(): DailyResult[] {
+  return Object.values(loadStore().results).sort((a, b) => b.date.localeCompare(a.date));
+}
+
+/**
+ * Record the outcome of a daily puzzle
+ * The first solve of the day is final - replays can't overwrite it
+ */
+export function saveDailyResult(result: DailyResult): DailyResult {
+  const store = loadStore();
+  const existing = store.results[result.date];
+  if (existing?.solved) return existing;
+
+  saveStore({ ...store, results: { ...store.results, [result.date]: result } });
+  return result;
+}
@@ -0,0 +1,106 @@
+// Q-Less Deal Pool
+// Rolls with a known 12-letter solution in every built-in word list, dealt when the
+// dealer runs out of time. Generated by scripts/build-deal-pool.ts - do not edit.
+
+export const VERIFIED_ROLLS: string[] = [
+  'OTROCPADRTKM',
+  'CLTMYDRAXPBU',
+  'ATRSDHGYWMNA',
+  'HMDGOBUTANCP',
+  'DBUWROIMGNSD',
+  'BEGGRCXYTODN',
+  'ORDCSOLALWKM',
+  'CBONDHANFKMN',
+  'IELRHMPTSAFB',
+  'MDLPDZUEKMHI',
+  'CYRKUNYDNTTO',
+  'LIXECLRFJHMO',
+  'SAKRNFNACLRH',
+  'HLMLICZGROHI',
+  'APLSNHLRIJIP',
+  'MVDFTOIKHRLA',
+  'GTHKIOCLHODD',
+  'DBMNHMILOPGT',
+  'ILDTCPXRJOIL',
+  'ESLTHGCPUNJR',
+  'STANGSIBPPUD',
+  'OLEYGTXBCGHW',
+  'TYIUBROVNTGD',
+  'BVNWEHUCLLCT',
+  'LABYRSHOGTWG',
+  'WGNUTCFRYOMR',
+  'DNHHEYFNFGSO',
+  'PTOBEPNOLTDR',
+  'TSKLEDCMHRNU',
+  'PRYLYWBUONTC',
+  'LNNHTCGPHALO',
+  'FKDXOEDHMMAN',
+  'NYOAPLYLTHMW',
+  'CBSLHIFYUAHV',
+  'HMOTCSIPFREP',
+  'SCKOMCWOTIRH',
+  'RGTSORBJTYLE',
+  'BRYNOGFCPUNA',
+  'SHAGCWLOBNRI',
+  'XULIOWRCPTHR',
+  'OHPHSRTYWOIK',
+  'CZBURSFREHNR',
+  'ZLAWARRRVCCI',
+  'TDCROSNVHUMT',
+  'BFGUCPECITRM',
+  'ZCOPGOPDCNEL',
+  'BLMEEDHPYSGK',
+  'MEIHSJWGRIBG',
+  'RBPICEEDJNVY',
+  'DRZTOLRMAPIL',
+  'BIUCGTLRWFEL',
+  'CMBEEHGWRLYK',
+  'NBOUGTARLTFP',
+  'NXGPCCLOBOIP',
+  'OCRZEORWPCBT',
+  'SCDEFORLJMHA',
+  'COTAPNLSMRSA',
+  'FHAUGTBILPCH',
+  'NVDMBTPRSHUE',
+  'CARYPRHCUBLI',
+  'ITIDHBERPTDY',
+  'AOSPNJLEYVTR',
+  'CRTBRMUOLKNG',
+  'YCSOLDTIERBK',
+  'LGOHHPARDNNT',
+  'RNAYEHCDMWVS',
+  'EUDRKTOBHBDT',
+  'KYDHMDMDINKA',
+  'MBLWINYNGOPN',
+  'GHLOYGOUCTKH',
+  'LYNHWCRECVIK',
+  'KGTHCEPIURMK',
+  'OGEWCRRSETBF',
+  'TNMIYHGPLMHO',
+  'DTXORPGYITUT',
+  'NTODZGTGIFOY',
+  'CHCVNGTDAMIO',
+  'CGWBENYINWOP',
+  'RTXHRNKMGSIA',
+  'LAHANTLSPSGH',
+  'EELTMGTIHKKC',
+  'KEDOPRBUCHCR',
+  'SOWPCRGHILCA',
+  'RSLLENCMOPGA',
+  'GYSTOBODRXKH',
+  'INPLDFSCETOJ',
+  'ORODVBTMXYHU',
+  'HRPAHYSKELGB',
+  'LOFPEGYBCWHN',
+  'NUPSGEDYWDTN',
+  'NLLWCGUICGES',
+  'JRTEOCGIGXYR',
+  'PCILNRKSTOYR',
+  'PLTOGECRZOYM',
+  'NJLRMHYOIPNE',
+  'WOMLRVHCNARO',
+  'TOHRRMSTUAGT',
+  'KCLELTVNHDID',
+  'SWONRDATCFZM',
+  'BENGTPYKLBOD',
+];
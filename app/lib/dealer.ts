@@ -0,0 +1,240 @@
+// Q-Less Dealer
+// Deals free-play rolls that are known to have a solution using every letter. A fresh roll
+// is checked with the solvers; if no solution turns up, the roll is repaired by turning a
+// single die, then re-rolled, and once the time budget runs out a pre-verified roll
+// from dealPool.ts is dealt instead. Asking for a difficulty band deals a rated roll
+// from that band (or the closest one found) in place of the first three steps.
+// The pool only holds standard 12-letter hands, verified on the default board against the
+// built-in word lists. With any other word list or a smaller board, pooled rolls are checked
+// again before one is dealt; other hand sizes, or a pool that fails the check, fall back to
+// the first roll, dealt as 'unverified' so the game can say so.
+
+import {
+  type GameState,
+  ALL_DICE_FACES,
+  DEFAULT_HAND_SIZE,
+  createInitialState,
+  createStateFromLetters,
+  handDice,
+  rollDiceFaces,
+} from './gameState';
+import { type Dictionary, BUILT_IN_DICTIONARIES, getActiveDictionary } from './dictionary';
+import { DEFAULT_GRID_SIZE } from './board';
+import { solvePuzzleV4 } from './solver-v4';
+import { solveExact } from './exactSolver';
+import { type Seed, createRng, hashSeed, randomInt, randomSeed, shuffleInPlace } from './random';
+import { VERIFIED_ROLLS } from './dealPool';
+import {
+  type Difficulty,
+  type DifficultyRating,
+  DEFAULT_RATING_TIMEOUT_MS,
+  DIFFICULTIES,
+  rateRoll,
+} from './difficulty';
+
+export const DEFAULT_DEAL_BUDGET_MS = 3000;
+
+// Per-roll limits: the heuristic solver finds most solutions within a few dozen ms, and
+// the exact solver picks up most of the rest. Slower rolls are skipped
+const HEURISTIC_TIMEOUT_MS = 300;
+const EXACT_TIMEOUT_MS = 500;
+
+// Daily rolls are checked against a node count instead of the clock, so a slow phone accepts
+// exactly the seeds a fast laptop does. Most solvable rolls need well under this
+const DAILY_SEED_ATTEMPTS = 20;
+const DAILY_NODE_BUDGET = 500000;
+
+// Rating a roll takes far longer than checking it, so a band gets longer to turn up
+const DIFFICULTY_DEAL_BUDGET_MS = 10000;
+
+// Pooled rolls checked again when the pool wasn't verified for the word list or board
+const POOL_RECHECKS = 4;
+
+export interface DealOptions {
+  budgetMs?: number; // Total time to spend checking before falling back to the pool (longer for difficulty deals)
+  dictionary?: Dictionary;
+  difficulty?: Difficulty;
+  handSize?: number; // Letters to deal (see HAND_SIZES)
+  gridSize?: number; // Board the solution has to fit on
+}
+
+export interface DifficultyDealOptions {
+  seed?: Seed; // First roll to try; later ones are derived from it
+  handSize?: number;
+  budgetMs?: number;
+  dictionary?: Dictionary;
+  gridSize?: number; // Board the solutions have to fit on
+}
+
+// 'roll': the roll for the seed as dealt; 'repair': that roll with one die turned;
+// 'reroll': a roll for a seed derived from it; 'rated': a roll picked for its difficulty;
+// 'pool': a pre-verified roll; 'unverified': the first roll, when no pooled roll fits the hand
+// size, word list and board
+export type DealSource = 'roll' | 'repair' | 'reroll' | 'rated' | 'pool' | 'unverified';
+
+export interface DealResult {
+  state: GameState;
+  source: DealSource;
+  dieChanges: number; // Dice turned to another face by a repair
+  checks: number; // Rolls the solver looked at
+  rating?: DifficultyRating; // Only for 'rated' deals
+}
+
+/**
+ * Deal a roll the solver has found a solution for that uses every letter
+ * @param seed - Seed for the first roll; repairs and re-rolls are derived from it
+ */
+export function dealSolvable(seed: Seed = randomSeed(), options: DealOptions = {}): DealResult {
+  const {
+    budgetMs,
+    dictionary = getActiveDictionary(),
+    difficulty,
+    handSize = DEFAULT_HAND_SIZE,
+    gridSize,
+  } = options;
+  const numericSeed = typeof seed === 'string' ? hashSeed(seed) : seed >>> 0;
+
+  if (difficulty) {
+    const rated = createStateForDifficulty(difficulty, { seed: numericSeed, handSize, budgetMs, dictionary, gridSize });
+    if (rated) {
+      return { ...rated, source: 'rated', dieChanges: 0, checks: 0 };
+    }
+    return dealFallback(numericSeed, handSize, dictionary, 0, gridSize);
+  }
+
+  const deadline = Date.now() + (budgetMs ?? DEFAULT_DEAL_BUDGET_MS);
+  let checks = 0;
+
+  const isSolvable = (state: GameState): boolean => {
+    if (Date.now() >= deadline) return false;
+    checks++;
+    const quick = solvePuzzleV4(state.letters, {
+      timeoutMs: Math.min(HEURISTIC_TIMEOUT_MS, deadline - Date.now()),
+      rng: createRng(state.seed),
+      dictionary,
+      gridSize,
+    });
+    if (quick.success && !quick.removedLetter) return true;
+
+    const remaining = deadline - Date.now();
+    if (remaining <= 0) return false;
+    const timeoutMs = Math.min(EXACT_TIMEOUT_MS, remaining);
+    return solveExact(state.letters, { timeoutMs, dictionary, gridSize }).status === 'solved';
+  };
+
+  const rolled = createInitialState(numericSeed, handSize);
+  if (isSolvable(rolled)) {
+    return { state: rolled, source: 'roll', dieChanges: 0, checks };
+  }
+
+  // Same dice, same shuffle as createInitialState, so a repair only changes one tile
+  const rng = createRng(numericSeed);
+  const dice = handDice(handSize);
+  const faces = rollDiceFaces(rng, dice);
+  const order = shuffleInPlace(faces.map((_, i) => i), rng);
+
+  for (let i = 0; i < faces.length && Date.now() < deadline; i++) {
+    for (const face of new Set(ALL_DICE_FACES[dice[i]])) {
+      if (face === faces[i]) continue;
+      const repaired = [...faces];
+      repaired[i] = face;
+      const dealt = createStateFromLetters(order.map(d => repaired[d]), null, dictionary);
+      const state = { ...dealt, letters: dealt.letters.map((l, j) => ({ ...l, die: dice[order[j]] })) };
+      if (isSolvable(state)) {
+        return { state, source: 'repair', dieChanges: 1, checks };
+      }
+    }
+  }
+
+  for (let attempt = 1; Date.now() < deadline; attempt++) {
+    const state = createInitialState(hashSeed(`${numericSeed}:${attempt}`), handSize);
+    if (isSolvable(state)) {
+      return { state, source: 'reroll', dieChanges: 0, checks };
+    }
+  }
+
+  return dealFallback(numericSeed, handSize, dictionary, checks, gridSize);
+}
+
+/**
+ * Deal a roll in a difficulty band
+ * Rolls are rated until one lands in the band; when the budget runs out the closest
+ * solvable roll is dealt instead
+ * @returns The game and its rating, or null if no solvable roll turned up at all
+ */
+export function createStateForDifficulty(
+  difficulty: Difficulty,
+  options: DifficultyDealOptions = {}
+): { state: GameState; rating: DifficultyRating } | null {
+  const {
+    seed = randomSeed(),
+    handSize = DEFAULT_HAND_SIZE,
+    budgetMs = DIFFICULTY_DEAL_BUDGET_MS,
+    dictionary = getActiveDictionary(),
+    gridSize,
+  } = options;
+  const deadline = Date.now() + budgetMs;
+  const numericSeed = typeof seed === 'string' ? hashSeed(seed) : seed >>> 0;
+  const target = DIFFICULTIES.indexOf(difficulty);
+
+  let closest: { state: GameState; rating: DifficultyRating; distance: number } | null = null;
+  for (let attempt = 0; Date.now() < deadline; attempt++) {
+    const state = createInitialState(attempt === 0 ? numericSeed : hashSeed(`${numericSeed}:${attempt}`), handSize);
+    const rating = rateRoll(state.letters, {
+      timeoutMs: Math.min(DEFAULT_RATING_TIMEOUT_MS, deadline - Date.now()),
+      dictionary,
+      gridSize,
+    });
+    if (rating.features.solutionCount === 0) continue;
+
+    const distance = Math.abs(DIFFICULTIES.indexOf(rating.difficulty) - target);
+    if (distance === 0) return { state, rating };
+    if (!closest || distance < closest.distance) closest = { state, rating, distance };
+  }
+  return closest && { state: closest.state, rating: closest.rating };
+}
+
+/**
+ * Deal the daily roll for a date: the first of a fixed sequence of date-derived seeds that the
+ * exact solver solves within its node budget, or a pre-verified roll picked by the date if none
+ * does. Nothing depends on the device's speed, so everyone gets the same board
+ * @param date - Date key, YYYY-MM-DD
+ * @param dictionary - Pinned by the caller, so the player's chosen word list doesn't matter
+ */
+export function dealDaily(date: string, dictionary: Dictionary): DealResult {
+  for (let attempt = 0; attempt < DAILY_SEED_ATTEMPTS; attempt++) {
+    const state = createInitialState(hashSeed(`qless-daily:${date}:${attempt}`));
+    const result = solveExact(state.letters, { timeoutMs: Infinity, maxNodes: DAILY_NODE_BUDGET, dictionary });
+    if (result.status === 'solved') {
+      return { state, source: attempt === 0 ? 'roll' : 'reroll', dieChanges: 0, checks: attempt + 1 };
+    }
+  }
+  return dealFallback(hashSeed(`qless-daily:${date}`), DEFAULT_HAND_SIZE, dictionary, DAILY_SEED_ATTEMPTS);
+}
+
+function dealFallback(
+  seed: number,
+  handSize: number,
+  dictionary: Dictionary,
+  checks: number,
+  gridSize: number = DEFAULT_GRID_SIZE
+): DealResult {
+  if (handSize === DEFAULT_HAND_SIZE) {
+    const isBuiltIn = Object.values(BUILT_IN_DICTIONARIES).some(({ id }) => id === dictionary.info.id);
+    const needsCheck = !isBuiltIn || gridSize < DEFAULT_GRID_SIZE;
+    const first = randomInt(createRng(seed), VERIFIED_ROLLS.length);
+
+    for (let i = 0; i < (needsCheck ? POOL_RECHECKS : 1); i++) {
+      const pooled = VERIFIED_ROLLS[(first + i) % VERIFIED_ROLLS.length];
+      const state = createStateFromLetters(pooled.split(''), null, dictionary);
+      if (needsCheck) {
+        checks++;
+        const result = solveExact(state.letters, { timeoutMs: EXACT_TIMEOUT_MS, dictionary, gridSize });
+        if (result.status !== 'solved') continue;
+      }
+      return { state, source: 'pool', dieChanges: 0, checks };
+    }
+  }
+
+  return { state: createInitialState(seed, handSize), source: 'unverified', dieChanges: 0, checks };
+}
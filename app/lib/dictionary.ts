@@ -0,0 +1,146 @@
+// Q-Less Dictionary
+// One pluggable interface over every word list, so player validation and the solver
+// always agree on what counts as a word
+
+import { type WordIndex, buildWordIndex, createWordIndex } from './wordIndex';
+import { type LoadProgress, fetchDawg } from './lexiconAsset';
+
+export interface DictionaryInfo {
+  id: string;
+  name: string;
+  description: string;
+  wordCount: number;
+  minLength: number;
+  maxLength: number;
+}
+
+export interface Dictionary {
+  readonly info: DictionaryInfo;
+  /** Trie-backed index for prefix and pattern queries */
+  readonly index: WordIndex;
+  /** Case-insensitive lookup */
+  has(word: string): boolean;
+  /** Every word that can be spelled from a multiset of lowercase letters */
+  wordsFromLetters(available: Map<string, number>): string[];
+  /** Words using exactly the given letters */
+  anagrams(letters: string): string[];
+  /** True if at least one word of minLength or more can be spelled from the letters */
+  canFormAny(available: Map<string, number>, minLength?: number): boolean;
+  wordsByLength(length: number): string[];
+}
+
+// Count letters of a word into a multiset
+export function letterCounts(word: string): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const c of word.toLowerCase()) {
+    counts.set(c, (counts.get(c) || 0) + 1);
+  }
+  return counts;
+}
+
+/**
+ * Wrap a word index as a dictionary
+ * @param meta - Identity shown in settings and recorded in stats
+ */
+export function createDictionaryFromIndex(
+  meta: { id: string; name: string; description: string },
+  index: WordIndex
+): Dictionary {
+  const info: DictionaryInfo = {
+    ...meta,
+    wordCount: index.wordCount,
+    minLength: index.minLength,
+    maxLength: index.maxLength,
+  };
+
+  return {
+    info,
+    index,
+    has: (word) => index.has(word),
+    wordsFromLetters: (available) => index.wordsFromLetters(available),
+    anagrams: (letters) => {
+      const available = letterCounts(letters);
+      return index.wordsFromLetters(available, letters.length, letters.length);
+    },
+    canFormAny: (available, minLength = 3) => index.canFormAny(available, minLength),
+    wordsByLength: (length) => index.match('?'.repeat(length)),
+  };
+}
+
+/**
+ * Build a dictionary from a raw word list
+ * @param meta - Identity shown in settings and recorded in stats
+ * @param words - Words in any case; duplicates are ignored
+ */
+export function createDictionary(
+  meta: { id: string; name: string; description: string },
+  words: Iterable<string>
+): Dictionary {
+  const normalized: string[] = [];
+  for (const word of words) {
+    const lower = word.trim().toLowerCase();
+    if (lower) normalized.push(lower);
+  }
+  return createDictionaryFromIndex(meta, buildWordIndex(normalized));
+}
+
+// ============ BUILT-IN WORD LISTS ============
+// Packed assets built by scripts/build-lexicons.ts
+
+export const BUILT_IN_DICTIONARIES = {
+  twl06: {
+    id: 'twl06',
+    name: 'TWL06',
+    description: 'Tournament Word List (2006), 3-10 letters, no Q',
+    url: '/lexicons/twl06.dawg.gz',
+  },
+  nwl2018: {
+    id: 'nwl2018',
+    name: 'NWL2018',
+    description: 'NASPA Word List (2018), 3-10 letters',
+    url: '/lexicons/nwl2018.dawg.gz',
+  },
+};
+
+export type BuiltInDictionaryId = keyof typeof BUILT_IN_DICTIONARIES;
+
+const builtInCache = new Map<string, Promise<Dictionary>>();
+
+/**
+ * Load a built-in list, downloading it on first use
+ * Concurrent callers share one download; a failed load is retried on the next call
+ */
+export function loadBuiltInDictionary(
+  id: BuiltInDictionaryId,
+  onProgress?: LoadProgress
+): Promise<Dictionary> {
+  let pending = builtInCache.get(id);
+  if (!pending) {
+    const { url, ...meta } = BUILT_IN_DICTIONARIES[id];
+    pending = fetchDawg(url, onProgress).then(
+      ({ edges, wordCount }) => createDictionaryFromIndex(meta, createWordIndex(edges, wordCount))
+    );
+    pending.catch(() => builtInCache.delete(id));
+    builtInCache.set(id, pending);
+  }
+  return pending;
+}
+
+// ============ ACTIVE DICTIONARY ============
+// Game state and solvers default to this, so switching lists switches both at once
+
+let activeDictionary: Dictionary | null = null;
+
+/**
+ * @throws If no dictionary has finished loading yet - deal only once one is ready
+ */
+export function getActiveDictionary(): Dictionary {
+  if (!activeDictionary) {
+    throw new Error('No dictionary loaded yet');
+  }
+  return activeDictionary;
+}
+
+export function setActiveDictionary(dictionary: Dictionary): void {
+  activeDictionary = dictionary;
+}
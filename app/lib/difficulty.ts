@@ -0,0 +1,195 @@
+// Q-Less Difficulty Rating
+// Scores a roll from what the solvers can tell about it:
+// - how many distinct solutions there are (fewer is harder)
+// - how obscure the words are even in the friendliest solution, judged by how unusual
+//   their letter pairs are across the word list
+// - the longest word even the friendliest solution needs
+// - how rare the letters are (LETTER_RARITY from gameState.ts)
+
+import { type Letter, LETTER_RARITY } from './gameState';
+import { type Dictionary, getActiveDictionary } from './dictionary';
+import { type Placement, enumerateSolutions } from './exactSolver';
+import { childOf, isLastEdge, letterOf } from './wordIndex';
+
+export type Difficulty = 'easy' | 'medium' | 'hard' | 'expert';
+
+export const DIFFICULTIES: Difficulty[] = ['easy', 'medium', 'hard', 'expert'];
+
+export const DIFFICULTY_LABELS: Record<Difficulty, string> = {
+  easy: 'Easy',
+  medium: 'Medium',
+  hard: 'Hard',
+  expert: 'Expert',
+};
+
+// Lowest score for each band
+const BAND_THRESHOLDS: [Difficulty, number][] = [
+  ['expert', 55],
+  ['hard', 40],
+  ['medium', 25],
+  ['easy', 0],
+];
+
+// Counting stops here - past a hundred solutions a roll is as easy as it gets
+const MAX_COUNTED_SOLUTIONS = 100;
+export const DEFAULT_RATING_TIMEOUT_MS = 1500;
+
+// Score weights, summing to 100
+const WEIGHTS = {
+  scarcity: 40,
+  obscurity: 25,
+  wordLength: 15,
+  letterRarity: 20,
+};
+
+export interface DifficultyFeatures {
+  solutionCount: number; // Capped at MAX_COUNTED_SOLUTIONS
+  countComplete: boolean; // False if counting stopped at the cap or ran out of time
+  obscurity: number; // Bits of surprise per letter pair in the friendliest solution's oddest word
+  longestWordNeeded: number;
+  letterRarity: number; // Mean LETTER_RARITY of the roll
+}
+
+export interface DifficultyRating {
+  difficulty: Difficulty;
+  score: number; // 0 (trivial) to 100; unsolvable rolls score 100
+  features: DifficultyFeatures;
+}
+
+export interface RateOptions {
+  timeoutMs?: number;
+  dictionary?: Dictionary;
+  gridSize?: number; // Board the solutions have to fit on
+}
+
+const ALPHABET_SIZE = 26;
+const CHAR_CODE_A = 97;
+
+// Letter pair counts across a word list, worked out once per list
+const pairCountCache = new WeakMap<Uint32Array, Float64Array>();
+
+function pairCounts(dictionary: Dictionary): Float64Array {
+  const edges = dictionary.index.edges;
+  const cached = pairCountCache.get(edges);
+  if (cached) return cached;
+
+  const counts = new Float64Array(ALPHABET_SIZE * ALPHABET_SIZE);
+  if (dictionary.index.wordCount > 0) {
+    // Every path through the graph is a distinct prefix, so each pair is counted once per prefix
+    const visit = (node: number, previous: number) => {
+      for (let i = node; ; i++) {
+        const edge = edges[i];
+        const letter = letterOf(edge);
+        if (previous >= 0) counts[previous * ALPHABET_SIZE + letter]++;
+        const child = childOf(edge);
+        if (child !== 0) visit(child, letter);
+        if (isLastEdge(edge)) break;
+      }
+    };
+    visit(0, -1);
+  }
+  pairCountCache.set(edges, counts);
+  return counts;
+}
+
+// Average surprise of a word's letter pairs, in bits; common spellings score low
+function wordObscurity(word: string, counts: Float64Array, total: number): number {
+  let bits = 0;
+  for (let i = 1; i < word.length; i++) {
+    const pair = (word.charCodeAt(i - 1) - CHAR_CODE_A) * ALPHABET_SIZE + word.charCodeAt(i) - CHAR_CODE_A;
+    bits += Math.log2(total / (counts[pair] + 1));
+  }
+  return bits / (word.length - 1);
+}
+
+// Across and down runs of two or more letters in a solved layout
+function solutionWords(solution: Placement[], chars: Map<string, string>): string[] {
+  const size = Math.max(...solution.map(p => Math.max(p.row, p.col))) + 1;
+  const grid: string[][] = Array.from({ length: size }, () => Array(size).fill(''));
+  for (const p of solution) grid[p.row][p.col] = chars.get(p.letterId) ?? '';
+
+  const words: string[] = [];
+  const collect = (line: string[]) => {
+    for (const run of line.join('').split(' ')) {
+      if (run.length >= 2) words.push(run);
+    }
+  };
+  for (let row = 0; row < size; row++) {
+    collect(grid[row].map(c => c || ' '));
+  }
+  for (let col = 0; col < size; col++) {
+    collect(grid.map(r => r[col] || ' '));
+  }
+  return words;
+}
+
+function clamp01(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
+
+/**
+ * Turn features into a 0-100 score
+ * Each feature is scaled onto 0-1 over the range real rolls tend to cover
+ */
+export function scoreFeatures(features: DifficultyFeatures): number {
+  if (features.solutionCount === 0) return 100;
+
+  const scarcity = 1 - Math.log(features.solutionCount) / Math.log(MAX_COUNTED_SOLUTIONS);
+  const obscurity = clamp01((features.obscurity - 8) / 4);
+  const wordLength = clamp01((features.longestWordNeeded - 4) / 4);
+  const letterRarity = clamp01((features.letterRarity - 2.25) / 2);
+
+  return Math.round(
+    WEIGHTS.scarcity * clamp01(scarcity) +
+    WEIGHTS.obscurity * obscurity +
+    WEIGHTS.wordLength * wordLength +
+    WEIGHTS.letterRarity * letterRarity
+  );
+}
+
+export function difficultyForScore(score: number): Difficulty {
+  return BAND_THRESHOLDS.find(([, min]) => score >= min)![0];
+}
+
+/**
+ * Rate how hard a roll is to solve
+ * @param letters - The hand; positions are ignored
+ */
+export function rateRoll(letters: Letter[], options: RateOptions = {}): DifficultyRating {
+  const {
+    timeoutMs = DEFAULT_RATING_TIMEOUT_MS,
+    dictionary = getActiveDictionary(),
+    gridSize,
+  } = options;
+
+  const { solutions, status } = enumerateSolutions(letters, {
+    timeoutMs,
+    dictionary,
+    gridSize,
+    maxSolutions: MAX_COUNTED_SOLUTIONS,
+  });
+
+  const counts = pairCounts(dictionary);
+  const total = counts.reduce((sum, count) => sum + count, 0);
+  const chars = new Map(letters.map(l => [l.id, l.char.toLowerCase()]));
+
+  // Each measure is taken from whichever solution is friendliest on it
+  let obscurity = Infinity;
+  let longestWordNeeded = Infinity;
+  for (const solution of solutions) {
+    const words = solutionWords(solution, chars);
+    const oddest = Math.max(...words.map(w => wordObscurity(w, counts, total)));
+    obscurity = Math.min(obscurity, oddest);
+    longestWordNeeded = Math.min(longestWordNeeded, Math.max(...words.map(w => w.length)));
+  }
+
+  const features: DifficultyFeatures = {
+    solutionCount: solutions.length,
+    countComplete: status === 'complete',
+    obscurity: solutions.length > 0 ? obscurity : 0,
+    longestWordNeeded: solutions.length > 0 ? longestWordNeeded : 0,
+    letterRarity: letters.reduce((sum, l) => sum + (LETTER_RARITY[l.char.toLowerCase()] || 1), 0) / letters.length,
+  };
+  const score = scoreFeatures(features);
+  return { difficulty: difficultyForScore(score), score, features };
+}
@@ -0,0 +1,561 @@
+// Q-Less Exact Solver - Complete Search
+//
+// solvePuzzleV4 samples likely word combinations, so when it gives up that proves nothing.
+// This solver covers every arrangement of the letters on the board: it either finds a
+// solution or shows that none exists, and can list every solution there is.
+//
+// Cells are filled in row-major order, each one left empty or given a remaining letter.
+// The run across and every run down are tracked as positions in the word graph
+// (see wordIndex.ts), so a letter is only tried where words can still continue with it
+// in both directions. On top of that:
+// - a run that stops must be a whole word or a single letter (there are no 2-letter words)
+// - a letter with no neighbour either way can never be part of a word
+// - at the end of each row, a group of letters that can't grow any more (it doesn't reach
+//   the row just finished) can only be the finished solution
+// - layouts are pinned to the top-left corner (row 0 and column 0 used), so shifted
+//   copies of one layout count once
+// - a layout flipped across its diagonal is also a solution, so only the one whose first
+//   column reads no higher than its first row is searched (unless flips are wanted)
+// - what the rows below can do depends only on a summary of the rows above (letters left,
+//   runs down, which columns are joined up), so a summary that already failed isn't searched again
+
+import type { Letter } from './gameState';
+import { type Dictionary, getActiveDictionary, letterCounts } from './dictionary';
+import { childOf, endsWord, findEdge } from './wordIndex';
+import { DEFAULT_GRID_SIZE } from './board';
+
+const MIN_WORD_LENGTH = 3;
+const ALPHABET_SIZE = 26;
+const CHAR_CODE_A = 97;
+const CLOCK_CHECK_MASK = 0xfff; // Read the clock every 4096 nodes
+const PROGRESS_INTERVAL_MS = 200;
+const MAX_REMEMBERED_STATES = 1000000;
+const EMPTY = -1;
+const DEAD = -1; // Graph position of a run no word continues from
+
+export interface ExactSolveProgress {
+  nodesVisited: number;
+  elapsedMs: number;
+}
+
+export interface ExactSolveOptions {
+  timeoutMs?: number;
+  maxNodes?: number; // Give up after this many partial layouts - unlike the clock, the same on every device
+  dictionary?: Dictionary; // Defaults to the active dictionary, same as player validation
+  gridSize?: number; // Board rows and columns; solutions fit inside (see board.ts)
+  onProgress?: (progress: ExactSolveProgress) => void;
+}
+
+export interface Placement {
+  letterId: string;
+  row: number;
+  col: number;
+}
+
+export interface EnumerateOptions extends ExactSolveOptions {
+  dedupeTransposes?: boolean; // Count a layout and its mirror across the diagonal once (default true)
+  maxSolutions?: number; // Stop after this many
+  onSolution?: (solution: Placement[], count: number) => void; // Called as each one is found
+}
+
+export interface ExactSolveStats {
+  nodesVisited: number; // Partial layouts examined
+  timeMs: number;
+}
+
+/**
+ * Why a roll has no solution. 'exhausted' means the full search ran to the end;
+ * anyone holding the same letters and word list can repeat it and get the same answer.
+ */
+export interface UnsolvableCertificate {
+  letters: string; // The roll, sorted
+  dictionaryId: string;
+  dictionaryWordCount: number;
+  reason: 'no-words' | 'unusable-letter' | 'exhausted';
+  unusableLetter?: string; // For 'unusable-letter': a letter no spellable word contains
+  nodesVisited: number;
+}
+
+export type ExactSolveResult =
+  | { status: 'solved'; placements: Placement[]; stats: ExactSolveStats }
+  | { status: 'unsolvable'; certificate: UnsolvableCertificate; stats: ExactSolveStats }
+  | { status: 'timeout'; stats: ExactSolveStats };
+
+export interface EnumerateResult {
+  // 'complete': every solution is listed; 'limit': stopped at maxSolutions; 'timeout': cut short
+  status: 'complete' | 'limit' | 'timeout';
+  solutions: Placement[][];
+  stats: ExactSolveStats;
+}
+
+interface SearchSettings {
+  gridSize: number;
+  timeoutMs: number;
+  maxNodes: number;
+  dedupeTransposes: boolean;
+  onProgress?: (progress: ExactSolveProgress) => void;
+}
+
+interface SearchOutcome {
+  stopped: boolean; // onSolution asked to stop
+  timedOut: boolean; // Ran out of time or nodes
+  nodesVisited: number;
+}
+
+// Map a solved grid of letter indexes back to the dice that fill it
+function gridToPlacements(grid: Int8Array, letters: Letter[], size: number): Placement[] {
+  const unused = [...letters];
+  const placements: Placement[] = [];
+  for (let cell = 0; cell < grid.length; cell++) {
+    if (grid[cell] === EMPTY) continue;
+    const char = String.fromCharCode(CHAR_CODE_A + grid[cell]);
+    const index = unused.findIndex(l => l.char.toLowerCase() === char);
+    const [letter] = unused.splice(index, 1);
+    placements.push({ letterId: letter.id, row: Math.floor(cell / size), col: cell % size });
+  }
+  return placements;
+}
+
+// Letters that can share a word with each other - anything else can never be placed
+function findUnusableLetter(letters: string[], dictionary: Dictionary, size: number): string | null | 'no-words' {
+  const words = dictionary.index.wordsFromLetters(letterCounts(letters.join('')), MIN_WORD_LENGTH, size);
+  if (words.length === 0) return 'no-words';
+
+  const usable = new Set<string>();
+  for (const word of words) {
+    for (const char of word) usable.add(char);
+  }
+  return letters.find(char => !usable.has(char)) ?? null;
+}
+
+/**
+ * Layout search shared by solveExact and enumerateSolutions
+ * @param onSolution - Called with each winning grid (letter indexes, -1 for empty); return true to stop
+ */
+function searchLayouts(
+  chars: string[],
+  dictionary: Dictionary,
+  settings: SearchSettings,
+  onSolution: (grid: Int8Array) => boolean
+): SearchOutcome {
+  const { gridSize: GRID_SIZE, timeoutMs, maxNodes, dedupeTransposes, onProgress } = settings;
+  const CELL_COUNT = GRID_SIZE * GRID_SIZE;
+  const startTime = Date.now();
+  const total = chars.length;
+  const edges = dictionary.index.edges;
+  const grid = new Int8Array(CELL_COUNT).fill(EMPTY);
+  const counts = new Int8Array(ALPHABET_SIZE);
+  for (const char of chars) counts[char.charCodeAt(0) - CHAR_CODE_A]++;
+
+  // Run down each column: graph edge of its last letter and its length
+  const downEdge = new Int32Array(GRID_SIZE).fill(DEAD);
+  const downLength = new Int8Array(GRID_SIZE);
+  const seen = new Uint8Array(CELL_COUNT); // Group label per cell while flood filling
+  const stack = new Int16Array(CELL_COUNT);
+  const failedStates = new Set<string>();
+  const columnUse = new Int8Array(GRID_SIZE); // Letters placed per column
+
+  let placed = 0;
+  let solutionsFound = 0;
+  let nodesVisited = 0;
+  let lastReport = startTime;
+  let timedOut = false;
+
+  // Graph node a run continues from: the root for a new run, DEAD if no word goes on
+  const nextNode = (edge: number, length: number): number => {
+    if (length === 0) return 0;
+    if (edge === DEAD) return DEAD;
+    const child = childOf(edges[edge]);
+    return child === 0 ? DEAD : child;
+  };
+
+  const canClose = (edge: number, length: number): boolean =>
+    length <= 1 || (length >= MIN_WORD_LENGTH && edge !== DEAD && endsWord(edges[edge]));
+
+  // Fewest letters left that turn a run into a word within `room` more cells, or Infinity
+  const lettersToComplete = (edge: number, length: number, room: number): number => {
+    if (edge === DEAD) return Infinity;
+    if (length >= MIN_WORD_LENGTH && endsWord(edges[edge])) return 0;
+    const node = childOf(edges[edge]);
+    if (room === 0 || node === 0) return Infinity;
+    let best = Infinity;
+    for (let letter = 0; letter < ALPHABET_SIZE && best > 1; letter++) {
+      if (counts[letter] === 0) continue;
+      const next = findEdge(edges, node, letter);
+      if (next === -1) continue;
+      counts[letter]--;
+      best = Math.min(best, 1 + lettersToComplete(next, length + 1, Math.min(room, best - 1) - 1));
+      counts[letter]++;
+    }
+    return best;
+  };
+
+  const hasNeighbour = (cell: number): boolean => {
+    const row = Math.floor(cell / GRID_SIZE);
+    const col = cell % GRID_SIZE;
+    return (col > 0 && grid[cell - 1] !== EMPTY)
+      || (col < GRID_SIZE - 1 && grid[cell + 1] !== EMPTY)
+      || (row > 0 && grid[cell - GRID_SIZE] !== EMPTY)
+      || (row < GRID_SIZE - 1 && grid[cell + GRID_SIZE] !== EMPTY);
+  };
+
+  // Flood fill from a cell over filled cells up to `limit`; returns the rows touched as a bitmask
+  const fill = (start: number, limit: number, label: number): number => {
+    let rows = 0;
+    let top = 0;
+    stack[top++] = start;
+    seen[start] = label;
+    while (top > 0) {
+      const cell = stack[--top];
+      const row = Math.floor(cell / GRID_SIZE);
+      const col = cell % GRID_SIZE;
+      rows |= 1 << row;
+      const neighbours = [
+        col > 0 ? cell - 1 : -1,
+        col < GRID_SIZE - 1 ? cell + 1 : -1,
+        row > 0 ? cell - GRID_SIZE : -1,
+        cell + GRID_SIZE,
+      ];
+      for (const next of neighbours) {
+        if (next < 0 || next >= limit || seen[next] || grid[next] === EMPTY) continue;
+        seen[next] = label;
+        stack[top++] = next;
+      }
+    }
+    return rows;
+  };
+
+  // Fewest letters still needed, with cells before `cell` decided. Columns don't share
+  // cells, so the shortfalls add up:
+  // - each open run down has to reach a word; a lone letter with a letter beside it
+  //   (or an undecided cell beside it) may stay a run of one
+  // - the layout is pinned left and connected, so every column left of those used needs a letter
+  const lettersOwed = (cell: number): number => {
+    const row = Math.floor(cell / GRID_SIZE);
+    const col = cell % GRID_SIZE;
+    let owed = 0;
+    while (owed < GRID_SIZE && columnUse[owed] === 0) owed++;
+    if (owed === GRID_SIZE) return 0;
+    for (let c = 0; c < GRID_SIZE; c++) {
+      const length = downLength[c];
+      if (length === 0) continue;
+      const lastRow = c < col ? row : row - 1;
+      const last = lastRow * GRID_SIZE + c;
+      if (length === 1 && (last + 1 === cell || hasNeighbour(last))) continue;
+      owed += lettersToComplete(downEdge[c], length, GRID_SIZE - 1 - lastRow);
+    }
+    return owed;
+  };
+
+  // After finishing a row with letters still to place, every group must reach that row.
+  // Returns null if one doesn't, otherwise the summary the rows below depend on
+  const rowEndState = (row: number): string | null => {
+    const limit = (row + 1) * GRID_SIZE;
+    seen.fill(0);
+    let groups = 0;
+    let cols = 0;
+    for (let cell = 0; cell < limit; cell++) {
+      if (grid[cell] === EMPTY) continue;
+      cols |= 1 << (cell % GRID_SIZE);
+      if (seen[cell]) continue;
+      if ((fill(cell, limit, ++groups) & (1 << row)) === 0) return null;
+    }
+
+    // The first row still matters while the first column matches it (see allowedByFlip)
+    let flipTied = true;
+    for (let k = 1; k <= row && flipTied; k++) flipTied = grid[k * GRID_SIZE] === grid[k];
+    const firstRow = flipTied ? grid.subarray(0, GRID_SIZE).join(',') : '';
+
+    const parts: (string | number)[] = [row, cols & 1, cols & (cols - 1) ? 1 : 0, counts.join(''), firstRow];
+    for (let col = 0; col < GRID_SIZE; col++) {
+      const length = downLength[col];
+      if (length === 0) {
+        parts.push('-');
+        continue;
+      }
+      const last = row * GRID_SIZE + col;
+      const edge = downEdge[col];
+      parts.push(edge === DEAD
+        ? `x${hasNeighbour(last) ? 1 : 0}:${seen[last]}`
+        : `${childOf(edges[edge])}:${endsWord(edges[edge]) ? 1 : 0}:${Math.min(length, MIN_WORD_LENGTH)}:${hasNeighbour(last) ? 1 : 0}:${seen[last]}`);
+    }
+    return parts.join('|');
+  };
+
+  // Flipping a layout across the diagonal swaps its first row and first column. Keep only
+  // layouts whose first column compares no higher, deciding cell (row, 0) as `value`
+  const allowedByFlip = (row: number, value: number): boolean => {
+    if (!dedupeTransposes) return true;
+    for (let k = 1; k < row; k++) {
+      if (grid[k * GRID_SIZE] !== grid[k]) return true; // Already lower earlier on
+    }
+    return value <= grid[row];
+  };
+
+  // When the first row and column match, both the layout and its flip got through
+  // allowedByFlip; carry the same rule on past the first column, reading down the columns
+  const isFlipDuplicate = (): boolean => {
+    if (!dedupeTransposes) return false;
+    for (let col = 0; col < GRID_SIZE; col++) {
+      for (let row = 0; row < GRID_SIZE; row++) {
+        const value = grid[row * GRID_SIZE + col];
+        const flipped = grid[col * GRID_SIZE + row];
+        if (value !== flipped) return value > flipped;
+      }
+    }
+    return false; // Symmetric
+  };
+
+  // All letters are down: cells from `cell` on stay empty, so close every open run and check the whole grid
+  const isWinningGrid = (acrossEdge: number, acrossLength: number): boolean => {
+    if (!canClose(acrossEdge, acrossLength)) return false;
+    for (let col = 0; col < GRID_SIZE; col++) {
+      if (!canClose(downEdge[col], downLength[col])) return false;
+    }
+
+    let usesColumnZero = false;
+    let rows = 0;
+    let cols = 0;
+    let first = -1;
+    for (let cell = 0; cell < CELL_COUNT; cell++) {
+      if (grid[cell] === EMPTY) continue;
+      if (!hasNeighbour(cell)) return false;
+      if (first === -1) first = cell;
+      rows |= 1 << Math.floor(cell / GRID_SIZE);
+      cols |= 1 << (cell % GRID_SIZE);
+      if (cell % GRID_SIZE === 0) usesColumnZero = true;
+    }
+    // Needs words both ways (at least two words), pinned left, all one group
+    if (!usesColumnZero || (rows & (rows - 1)) === 0 || (cols & (cols - 1)) === 0) return false;
+    seen.fill(0);
+    fill(first, CELL_COUNT, 1);
+    let connected = 0;
+    for (let cell = 0; cell < CELL_COUNT; cell++) connected += seen[cell];
+    return connected === total;
+  };
+
+  // A finished layout: report it unless it's the mirror of one reported already
+  const visitSolution = (acrossEdge: number, acrossLength: number): boolean => {
+    if (!isWinningGrid(acrossEdge, acrossLength) || isFlipDuplicate()) return false;
+    solutionsFound++;
+    return onSolution(grid);
+  };
+
+  // Close off the finished row, then carry on unless its summary already came to nothing
+  const visitRowStart = (cell: number, acrossEdge: number, acrossLength: number): boolean => {
+    if (!canClose(acrossEdge, acrossLength)) return false;
+    // Pin to the top: an empty first row is the same layout shifted down
+    if (placed === 0) return false;
+    const state = rowEndState(cell / GRID_SIZE - 1);
+    if (state === null || failedStates.has(state)) return false;
+
+    const solutionsBefore = solutionsFound;
+    const stop = visitCell(cell, DEAD, 0);
+    if (!stop && !timedOut && solutionsFound === solutionsBefore) {
+      if (failedStates.size >= MAX_REMEMBERED_STATES) failedStates.clear();
+      failedStates.add(state);
+    }
+    return stop;
+  };
+
+  // Returns true once the search should stop
+  const visit = (cell: number, acrossEdge: number, acrossLength: number): boolean => {
+    if ((++nodesVisited & CLOCK_CHECK_MASK) === 0) {
+      const now = Date.now();
+      if (now - startTime > timeoutMs) timedOut = true;
+      if (onProgress && now - lastReport >= PROGRESS_INTERVAL_MS) {
+        lastReport = now;
+        onProgress({ nodesVisited, elapsedMs: now - startTime });
+      }
+    }
+    if (nodesVisited > maxNodes) timedOut = true;
+    if (timedOut) return false;
+    if (placed === total) return visitSolution(acrossEdge, acrossLength);
+    if (CELL_COUNT - cell < total - placed) return false;
+
+    if (cell % GRID_SIZE === 0 && cell > 0) return visitRowStart(cell, acrossEdge, acrossLength);
+    return visitCell(cell, acrossEdge, acrossLength);
+  };
+
+  // Decide one cell: a letter, or empty
+  const visitCell = (cell: number, acrossEdge: number, acrossLength: number): boolean => {
+    const row = Math.floor(cell / GRID_SIZE);
+    const col = cell % GRID_SIZE;
+    if (lettersOwed(cell) > total - placed) return false;
+
+    const savedDownEdge = downEdge[col];
+    const savedDownLength = downLength[col];
+
+    // Place a letter that keeps both runs spellable
+    const acrossNode = nextNode(acrossEdge, acrossLength);
+    const downNode = nextNode(savedDownEdge, savedDownLength);
+    if (acrossNode !== DEAD && downNode !== DEAD) {
+      for (let letter = 0; letter < ALPHABET_SIZE; letter++) {
+        if (counts[letter] === 0) continue;
+        const across = findEdge(edges, acrossNode, letter);
+        const down = findEdge(edges, downNode, letter);
+        // A letter nothing can follow still works as a run of one
+        if ((across === -1 && acrossLength > 0) || (down === -1 && savedDownLength > 0)) continue;
+        if (col === 0 && row > 0 && !allowedByFlip(row, letter)) break;
+
+        counts[letter]--;
+        // Runs of two or more have to end up as words; a single letter can stay single
+        if (
+          (acrossLength > 0 && lettersToComplete(across, acrossLength + 1, GRID_SIZE - 1 - col) === Infinity) ||
+          (savedDownLength > 0 && lettersToComplete(down, savedDownLength + 1, GRID_SIZE - 1 - row) === Infinity)
+        ) {
+          counts[letter]++;
+          continue;
+        }
+        grid[cell] = letter;
+        placed++;
+        columnUse[col]++;
+        downEdge[col] = down === -1 ? DEAD : down;
+        downLength[col] = savedDownLength + 1;
+
+        const stop = visit(cell + 1, across === -1 ? DEAD : across, acrossLength + 1);
+
+        downEdge[col] = savedDownEdge;
+        downLength[col] = savedDownLength;
+        placed--;
+        columnUse[col]--;
+        if (stop) return true;
+        grid[cell] = EMPTY;
+        counts[letter]++;
+        if (timedOut) return false;
+      }
+    }
+
+    // Leave the cell empty, which ends both runs here
+    if (!canClose(acrossEdge, acrossLength) || !canClose(savedDownEdge, savedDownLength)) return false;
+    // A letter above with nothing below or beside it is stranded
+    if (savedDownLength === 1 && !hasNeighbour(cell - GRID_SIZE)) return false;
+    if (col === 0 && row > 0 && !allowedByFlip(row, EMPTY)) return false;
+
+    downEdge[col] = DEAD;
+    downLength[col] = 0;
+    const stop = visit(cell + 1, DEAD, 0);
+    downEdge[col] = savedDownEdge;
+    downLength[col] = savedDownLength;
+    return stop;
+  };
+
+  const stopped = visit(0, DEAD, 0);
+  return { stopped, timedOut, nodesVisited };
+}
+
+/**
+ * Search every layout of the letters for a winning grid
+ * @param letters - The hand to place; all of them must be used
+ * @returns A solution, a certificate that none exists, or 'timeout' if the search was cut short
+ *   by the clock or maxNodes
+ */
+export function solveExact(letters: Letter[], options: ExactSolveOptions = {}): ExactSolveResult {
+  const {
+    timeoutMs = 60000,
+    maxNodes = Infinity,
+    dictionary = getActiveDictionary(),
+    gridSize = DEFAULT_GRID_SIZE,
+    onProgress,
+  } = options;
+  const startTime = Date.now();
+  const chars = letters.map(l => l.char.toLowerCase());
+
+  const certify = (
+    reason: UnsolvableCertificate['reason'],
+    nodesVisited: number,
+    unusableLetter?: string
+  ): ExactSolveResult => ({
+    status: 'unsolvable',
+    certificate: {
+      letters: [...chars].sort().join(''),
+      dictionaryId: dictionary.info.id,
+      dictionaryWordCount: dictionary.info.wordCount,
+      reason,
+      ...(unusableLetter && { unusableLetter }),
+      nodesVisited,
+    },
+    stats: { nodesVisited, timeMs: Date.now() - startTime },
+  });
+
+  // Cheap proofs first
+  const unusable = findUnusableLetter(chars, dictionary, gridSize);
+  if (unusable === 'no-words') return certify('no-words', 0);
+  if (unusable) return certify('unusable-letter', 0, unusable);
+
+  let placements: Placement[] = [];
+  const settings = { gridSize, timeoutMs, maxNodes, dedupeTransposes: true, onProgress };
+  const outcome = searchLayouts(chars, dictionary, settings, grid => {
+    placements = gridToPlacements(grid, letters, gridSize);
+    return true;
+  });
+
+  const stats = { nodesVisited: outcome.nodesVisited, timeMs: Date.now() - startTime };
+  if (outcome.stopped) {
+    return { status: 'solved', placements, stats };
+  }
+  if (outcome.timedOut) {
+    return { status: 'timeout', stats };
+  }
+  return certify('exhausted', outcome.nodesVisited);
+}
+
+/**
+ * List every distinct solution for a roll. Layouts that differ only by where they sit
+ * in the grid count once; so do mirror images unless dedupeTransposes is false.
+ * @param letters - The hand to place; all of them must be used
+ */
+export function enumerateSolutions(letters: Letter[], options: EnumerateOptions = {}): EnumerateResult {
+  const {
+    timeoutMs = 60000,
+    maxNodes = Infinity,
+    dictionary = getActiveDictionary(),
+    gridSize = DEFAULT_GRID_SIZE,
+    onProgress,
+    dedupeTransposes = true,
+    maxSolutions = Infinity,
+    onSolution,
+  } = options;
+  const startTime = Date.now();
+  const chars = letters.map(l => l.char.toLowerCase());
+  const solutions: Placement[][] = [];
+
+  const outcome = findUnusableLetter(chars, dictionary, gridSize) === null
+    ? searchLayouts(chars, dictionary, { gridSize, timeoutMs, maxNodes, dedupeTransposes, onProgress }, grid => {
+      const solution = gridToPlacements(grid, letters, gridSize);
+      solutions.push(solution);
+      onSolution?.(solution, solutions.length);
+      return solutions.length >= maxSolutions;
+    })
+    : { stopped: false, timedOut: false, nodesVisited: 0 };
+
+  return {
+    status: outcome.stopped ? 'limit' : outcome.timedOut ? 'timeout' : 'complete',
+    solutions,
+    stats: { nodesVisited: outcome.nodesVisited, timeMs: Date.now() - startTime },
+  };
+}
+
+/**
+ * Key that's equal for layouts that are the same up to position in the grid (and, with
+ * dedupeTransposes, up to a flip across the diagonal) - for matching a player's grid
+ * against enumerated solutions
+ */
+export function layoutKey(cells: { row: number; col: number; char: string }[], dedupeTransposes = true): string {
+  const top = Math.min(...cells.map(c => c.row));
+  const left = Math.min(...cells.map(c => c.col));
+  const write = (flip: boolean) => cells
+    .map(c => {
+      const row = c.row - top;
+      const col = c.col - left;
+      return flip ? { row: col, col: row, char: c.char } : { row, col, char: c.char };
+    })
+    .sort((a, b) => a.row - b.row || a.col - b.col)
+    .map(c => `${c.row},${c.col}${c.char.toLowerCase()}`)
+    .join(' ');
+
+  const key = write(false);
+  if (!dedupeTransposes) return key;
+  const flipped = write(true);
+  return flipped < key ? flipped : key;
+}
@@ -1,11 +1,21 @@
 // Q-Less Game State Management
-import { isValidWord } from './words';
-import { isScrabbleWord } from './scrabbleWords';
+import { type Dictionary, getActiveDictionary } from './dictionary';
+import { type Rng, type Seed, createRng, hashSeed, randomInt, randomSeed, shuffleInPlace } from './random';
+import {
+  type BoardConfig,
+  type BoardShape,
+  DEFAULT_GRID_SIZE,
+  MAX_EXPANDED_SIZE,
+  createGrid,
+  solverGridSize,
+} from './board';
+import { solvePuzzleV4, type SolveResult } from './solver-v4';
 
 export interface Letter {
   id: string;
   char: string;
   position: { row: number; col: number } | null;
+  die: number | null; // Index into ALL_DICE_FACES of the die it was rolled on; null if not rolled (share codes, the deal pool)
 }
 
 export interface GridCell {
@@ -18,21 +28,29 @@ export interface WordResult {
   word: string;
   positions: { row: number; col: number }[];
   isValid: boolean;
-  isScrabbleValid: boolean; // Additional check against official Scrabble dictionary
   direction: 'horizontal' | 'vertical';
 }
 
+// Free play deals a random roll; classic rolls the real dice with no fix-ups, so the board may
+// have no solution; daily deals the roll for today's date; shared starts from a puzzle code;
+// countdown and blitz deal like free play against a time limit (see challenge.ts); zen deals
+// like free play with no clock and no stats (see zen.ts)
+export type PlayMode = 'free' | 'classic' | 'daily' | 'shared' | 'countdown' | 'blitz' | 'zen';
+
 export interface GameState {
   letters: Letter[];
-  grid: (Letter | null)[][];
+  grid: (Letter | null)[][]; // Rows of cells; its dimensions are the board's (see board.ts)
+  autoExpand: boolean; // Grow the grid when a letter lands on an edge
   timer: number;
   isWon: boolean;
   words: WordResult[];
+  seed: number; // Seed the roll was dealt from - same seed, same letters
+  placementOrder: string[]; // Ids of the letters on the grid, least recently placed first
 }
 
 // Official Q-Less dice faces (from physical game)
 // Each die has 6 faces, we pick one face per die
-const DICE_FACES = [
+export const DICE_FACES = [
   ['C', 'B', 'J', 'D', 'C', 'T'],  // Die 1
   ['D', 'R', 'R', 'L', 'G', 'G'],  // Die 2
   ['O', 'A', 'A', 'O', 'E', 'E'],  // Die 3 (vowel die)
@@ -47,70 +65,299 @@ const DICE_FACES = [
   ['M', 'T', 'S', 'C', 'T', 'C'],  // Die 12
 ];
 
-function rollDice(): string[] {
-  const letters = DICE_FACES.map(die => die[Math.floor(Math.random() * 6)]);
+// ============ HAND SIZES ============
+// The tabletop game is twelve dice; shorter hands roll a subset of them and longer ones
+// add extra dice weighted towards common letters
+
+export const HAND_SIZES = [8, 10, 12, 15, 20];
+export const DEFAULT_HAND_SIZE = 12;
+
+export const EXTRA_DICE_FACES = [
+  ['A', 'E', 'I', 'O', 'U', 'E'],  // Die 13 (vowel die)
+  ['S', 'T', 'R', 'N', 'L', 'S'],  // Die 14
+  ['E', 'A', 'R', 'T', 'D', 'N'],  // Die 15
+  ['O', 'I', 'A', 'E', 'Y', 'U'],  // Die 16 (vowel die)
+  ['L', 'N', 'S', 'T', 'R', 'D'],  // Die 17
+  ['B', 'C', 'M', 'P', 'G', 'H'],  // Die 18
+  ['E', 'I', 'S', 'T', 'A', 'R'],  // Die 19
+  ['F', 'K', 'W', 'V', 'Y', 'H'],  // Die 20
+];
+
+// Every die a letter can come from - the official ones keep their indexes
+export const ALL_DICE_FACES = [...DICE_FACES, ...EXTRA_DICE_FACES];
+
+// How hard each letter is to fit into words (higher = rarer); used for scoring and difficulty
+export const LETTER_RARITY: Record<string, number> = {
+  q: 10, z: 10, x: 9, j: 8, k: 7, v: 6,
+  w: 5, y: 5, f: 4, b: 4, h: 4, m: 4, p: 4,
+  g: 3, c: 3, d: 3, u: 3,
+  l: 2, n: 2, r: 2, t: 2, s: 2, o: 2,
+  i: 1, a: 1, e: 1,
+};
+
+// Dice rolled for each hand size, as indexes into ALL_DICE_FACES. Short hands keep all
+// three vowel dice and drop the awkward consonants (J, K, V, X, Z) first
+const HAND_DICE: Record<number, number[]> = {
+  8: [0, 1, 2, 3, 4, 6, 8, 11],
+  10: [0, 1, 2, 3, 4, 5, 6, 8, 10, 11],
+  12: [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11],
+  15: [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14],
+  20: [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15, 16, 17, 18, 19],
+};
+
+/**
+ * The dice a hand of this size is rolled with
+ * @returns Indexes into ALL_DICE_FACES; sizes outside HAND_SIZES get the standard twelve
+ */
+export function handDice(handSize: number): number[] {
+  return HAND_DICE[handSize] ?? HAND_DICE[DEFAULT_HAND_SIZE];
+}
+
+/**
+ * Roll every die once, exactly as the tabletop game does
+ * @param dice - Indexes into ALL_DICE_FACES; defaults to the standard twelve
+ * @returns One face per die, in the order of dice
+ */
+export function rollClassicFaces(rng: Rng, dice: number[] = handDice(DEFAULT_HAND_SIZE)): string[] {
+  return dice.map(die => ALL_DICE_FACES[die][randomInt(rng, 6)]);
+}
+
+/**
+ * Roll every die once, then swap faces to bring the vowel count into range - 2-4 for
+ * twelve dice, scaled with the hand size
+ * Swapped-in letters needn't be on their die
+ * @param dice - Indexes into ALL_DICE_FACES; defaults to the standard twelve
+ * @returns One face per die, in the order of dice
+ */
+export function rollDiceFaces(rng: Rng, dice: number[] = handDice(DEFAULT_HAND_SIZE)): string[] {
+  const letters = rollClassicFaces(rng, dice);
+  const minVowels = Math.round(dice.length / 6);
+  const maxVowels = Math.round(dice.length / 3);
   
-  // Ensure 2-3 vowels for playability
+  // Ensure enough vowels for playability
   const vowels = ['A', 'E', 'I', 'O', 'U'];
   const vowelCount = letters.filter(l => vowels.includes(l)).length;
   
-  if (vowelCount < 2) {
+  if (vowelCount < minVowels) {
     // Replace some consonants with vowels
     const consonantIndices = letters
       .map((l, i) => vowels.includes(l) ? -1 : i)
       .filter(i => i !== -1);
     
-    while (letters.filter(l => vowels.includes(l)).length < 2 && consonantIndices.length > 0) {
+    while (letters.filter(l => vowels.includes(l)).length < minVowels && consonantIndices.length > 0) {
       const idx = consonantIndices.pop()!;
-      letters[idx] = vowels[Math.floor(Math.random() * 5)];
+      letters[idx] = vowels[randomInt(rng, 5)];
     }
-  } else if (vowelCount > 4) {
+  } else if (vowelCount > maxVowels) {
     // Too many vowels, replace some
     const vowelIndices = letters
       .map((l, i) => vowels.includes(l) ? i : -1)
       .filter(i => i !== -1);
     
     const consonants = 'BCDFGHJKLMNPRSTVWXYZ'.split('');
-    while (letters.filter(l => vowels.includes(l)).length > 4 && vowelIndices.length > 0) {
+    while (letters.filter(l => vowels.includes(l)).length > maxVowels && vowelIndices.length > 0) {
       const idx = vowelIndices.pop()!;
-      letters[idx] = consonants[Math.floor(Math.random() * consonants.length)];
+      letters[idx] = consonants[randomInt(rng, consonants.length)];
     }
   }
-  
-  // Shuffle the letters
-  for (let i = letters.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [letters[i], letters[j]] = [letters[j], letters[i]];
-  }
-  
+
   return letters;
 }
 
-export function createInitialState(): GameState {
-  const rolledLetters = rollDice();
-  const letters: Letter[] = rolledLetters.map((char, i) => ({
+// Shuffle the rolled faces, keeping track of which die each letter came from
+function shuffleDice(faces: string[], dice: number[], rng: Rng): { chars: string[]; dice: number[] } {
+  const order = shuffleInPlace(faces.map((_, i) => i), rng);
+  return { chars: order.map(i => faces[i]), dice: order.map(i => dice[i]) };
+}
+
+function buildState(chars: string[], seed: number, dice?: number[]): GameState {
+  const letters: Letter[] = chars.map((char, i) => ({
     id: `letter-${i}`,
     char,
     position: null,
+    die: dice?.[i] ?? null,
   }));
 
-  // Create 8x8 grid (smaller for better UX)
-  const grid: (Letter | null)[][] = Array(8).fill(null).map(() => Array(8).fill(null));
+  const grid = createGrid<Letter>(DEFAULT_GRID_SIZE, DEFAULT_GRID_SIZE);
 
   return {
     letters,
     grid,
+    autoExpand: false,
     timer: 0,
     isWon: false,
     words: [],
+    seed,
+    placementOrder: [],
   };
 }
 
+/**
+ * Deal a new game
+ * @param seed - Optional seed; the same seed always deals the same letters in the same order
+ * @param handSize - Letters to deal, one of HAND_SIZES
+ */
+export function createInitialState(seed: Seed = randomSeed(), handSize: number = DEFAULT_HAND_SIZE): GameState {
+  const numericSeed = typeof seed === 'string' ? hashSeed(seed) : seed >>> 0;
+  const rng = createRng(numericSeed);
+  const dice = handDice(handSize);
+  const shuffled = shuffleDice(rollDiceFaces(rng, dice), dice, rng);
+  return buildState(shuffled.chars, numericSeed, shuffled.dice);
+}
+
+/**
+ * Deal a classic-dice game: every letter is a face of its own die, with no vowel fix-ups,
+ * so some boards have no solution - just like the tabletop game
+ */
+export function createClassicState(seed: Seed = randomSeed(), handSize: number = DEFAULT_HAND_SIZE): GameState {
+  const numericSeed = typeof seed === 'string' ? hashSeed(seed) : seed >>> 0;
+  const rng = createRng(numericSeed);
+  const dice = handDice(handSize);
+  const shuffled = shuffleDice(rollClassicFaces(rng, dice), dice, rng);
+  return buildState(shuffled.chars, numericSeed, shuffled.dice);
+}
+
+/**
+ * Start a game from known letters instead of rolling, e.g. from a share code
+ * @param chars - The letters to deal, in order
+ * @param positions - Optional starting grid position per letter
+ */
+export function createStateFromLetters(
+  chars: string[],
+  positions?: ({ row: number; col: number } | null)[] | null,
+  dictionary: Dictionary = getActiveDictionary()
+): GameState {
+  const upper = chars.map(c => c.toUpperCase());
+  let state = buildState(upper, hashSeed(upper.join('')));
+
+  positions?.forEach((pos, i) => {
+    if (pos && state.letters[i]) {
+      state = placeLetter(state, state.letters[i].id, pos.row, pos.col, dictionary);
+    }
+  });
+
+  return state;
+}
+
+/**
+ * Rebuild a game from its letters, e.g. from a saved game or a replay log
+ * @param placementOrder - Ids of the placed letters, least recently placed first; defaults to
+ *   their order in the letters array
+ * @param shape - The grid the letters were placed on; defaults to a fixed 8x8 board
+ */
+export function restoreState(
+  letters: Letter[],
+  seed: number,
+  placementOrder: string[] = letters.filter(l => l.position).map(l => l.id),
+  dictionary: Dictionary = getActiveDictionary(),
+  shape: BoardShape = { rows: DEFAULT_GRID_SIZE, cols: DEFAULT_GRID_SIZE, autoExpand: false }
+): GameState {
+  const state = buildState([], seed);
+  const grid = createGrid<Letter>(shape.rows, shape.cols);
+  for (const letter of letters) {
+    if (letter.position) grid[letter.position.row][letter.position.col] = letter;
+  }
+  return refreshWords({ ...state, letters, grid, autoExpand: shape.autoExpand, placementOrder }, dictionary);
+}
+
+/**
+ * The dimensions of a game's grid, e.g. for saving it
+ */
+export function boardShape(state: GameState): BoardShape {
+  return { rows: state.grid.length, cols: state.grid[0].length, autoExpand: state.autoExpand };
+}
+
+/**
+ * Rows and columns the solvers may use for a game's board
+ */
+export function boardSolverSize(state: GameState): number {
+  return solverGridSize(Math.min(state.grid.length, state.grid[0].length), state.autoExpand, state.letters.length);
+}
+
+// Rebuild the grid at a new size, moving every placed letter by the same offset
+function resizeGrid(
+  state: GameState,
+  rows: number,
+  cols: number,
+  offset: { row: number; col: number },
+  dictionary: Dictionary
+): GameState {
+  const grid = createGrid<Letter>(rows, cols);
+  const letters = state.letters.map(letter => {
+    if (!letter.position) return letter;
+    const position = { row: letter.position.row + offset.row, col: letter.position.col + offset.col };
+    const moved = { ...letter, position };
+    grid[position.row][position.col] = moved;
+    return moved;
+  });
+  return refreshWords({ ...state, letters, grid }, dictionary);
+}
+
+/**
+ * Put a game on a board of the configured size; placed letters keep their cells, and the
+ * grid never shrinks past them
+ */
+export function setBoard(
+  state: GameState,
+  board: BoardConfig,
+  dictionary: Dictionary = getActiveDictionary()
+): GameState {
+  const placed = state.letters.filter(l => l.position);
+  const rows = Math.max(board.size, ...placed.map(l => l.position!.row + 1));
+  const cols = Math.max(board.size, ...placed.map(l => l.position!.col + 1));
+  const resized = resizeGrid({ ...state, autoExpand: board.autoExpand }, rows, cols, { row: 0, col: 0 }, dictionary);
+  return expandGrid(resized, dictionary);
+}
+
+/**
+ * On an auto-expanding board, add a row or column beyond every edge a letter is touching,
+ * so there is always room to build outwards. Letters shift down or right when the grid grows
+ * at the top or left. Fixed boards, and boards at MAX_EXPANDED_SIZE, are returned unchanged
+ */
+export function expandGrid(state: GameState, dictionary: Dictionary = getActiveDictionary()): GameState {
+  if (!state.autoExpand) return state;
+
+  const rows = state.grid.length;
+  const cols = state.grid[0].length;
+  const placed = state.letters.filter(l => l.position).map(l => l.position!);
+  if (placed.length === 0) return state;
+
+  let top = placed.some(p => p.row === 0) ? 1 : 0;
+  let bottom = placed.some(p => p.row === rows - 1) ? 1 : 0;
+  let left = placed.some(p => p.col === 0) ? 1 : 0;
+  let right = placed.some(p => p.col === cols - 1) ? 1 : 0;
+
+  // Grow towards the bottom and right first when there's only room for one more
+  if (rows + bottom > MAX_EXPANDED_SIZE) bottom = 0;
+  if (rows + bottom + top > MAX_EXPANDED_SIZE) top = 0;
+  if (cols + right > MAX_EXPANDED_SIZE) right = 0;
+  if (cols + right + left > MAX_EXPANDED_SIZE) left = 0;
+
+  if (top + bottom + left + right === 0) return state;
+  return resizeGrid(state, rows + top + bottom, cols + left + right, { row: top, col: left }, dictionary);
+}
+
+/**
+ * Grow the grid, if needed, so every placement is on it - e.g. before showing a solution
+ * the solver found on a bigger board than the one on screen
+ */
+export function fitPlacements(
+  state: GameState,
+  placements: { row: number; col: number }[],
+  dictionary: Dictionary = getActiveDictionary()
+): GameState {
+  const rows = Math.max(state.grid.length, ...placements.map(p => p.row + 1));
+  const cols = Math.max(state.grid[0].length, ...placements.map(p => p.col + 1));
+  if (rows === state.grid.length && cols === state.grid[0].length) return state;
+  return resizeGrid(state, rows, cols, { row: 0, col: 0 }, dictionary);
+}
+
 export function placeLetter(
   state: GameState,
   letterId: string,
   row: number,
-  col: number
+  col: number,
+  dictionary: Dictionary = getActiveDictionary()
 ): GameState {
   // Check if cell is occupied
   if (state.grid[row][col] !== null) {
@@ -139,7 +386,7 @@ export function placeLetter(
   newLetters[letterIndex] = newLetter;
 
   // Validate words
-  const words = findAllWords(newGrid);
+  const words = findAllWords(newGrid, dictionary);
   const isWon = checkWinCondition(newLetters, words, newGrid);
 
   return {
@@ -148,10 +395,15 @@ export function placeLetter(
     grid: newGrid,
     words,
     isWon,
+    placementOrder: [...state.placementOrder.filter(id => id !== letterId), letterId],
   };
 }
 
-export function removeLetter(state: GameState, letterId: string): GameState {
+export function removeLetter(
+  state: GameState,
+  letterId: string,
+  dictionary: Dictionary = getActiveDictionary()
+): GameState {
   const letterIndex = state.letters.findIndex(l => l.id === letterId);
   if (letterIndex === -1) return state;
 
@@ -165,7 +417,7 @@ export function removeLetter(state: GameState, letterId: string): GameState {
   const newLetters = [...state.letters];
   newLetters[letterIndex] = newLetter;
 
-  const words = findAllWords(newGrid);
+  const words = findAllWords(newGrid, dictionary);
 
   return {
     ...state,
@@ -173,10 +425,34 @@ export function removeLetter(state: GameState, letterId: string): GameState {
     grid: newGrid,
     words,
     isWon: false,
+    placementOrder: state.placementOrder.filter(id => id !== letterId),
   };
 }
 
-function findAllWords(grid: (Letter | null)[][]): WordResult[] {
+/**
+ * The letter placed (or moved) most recently that is still on the grid
+ */
+export function lastPlacedLetter(state: GameState): Letter | null {
+  const id = state.placementOrder[state.placementOrder.length - 1];
+  return state.letters.find(l => l.id === id) ?? null;
+}
+
+/**
+ * Re-check the board against a dictionary, e.g. after the player switches word lists
+ */
+export function refreshWords(
+  state: GameState,
+  dictionary: Dictionary = getActiveDictionary()
+): GameState {
+  const words = findAllWords(state.grid, dictionary);
+  return {
+    ...state,
+    words,
+    isWon: checkWinCondition(state.letters, words, state.grid),
+  };
+}
+
+function findAllWords(grid: (Letter | null)[][], dictionary: Dictionary): WordResult[] {
   const words: WordResult[] = [];
 
   // Find horizontal words
@@ -194,12 +470,10 @@ function findAllWords(grid: (Letter | null)[][]): WordResult[] {
         positions.push({ row, col });
       } else {
         if (currentWord.length >= 2) {
-          const valid = currentWord.length >= 3 && isValidWord(currentWord);
           words.push({
             word: currentWord,
             positions: [...positions],
-            isValid: valid,
-            isScrabbleValid: valid && isScrabbleWord(currentWord),
+            isValid: currentWord.length >= 3 && dictionary.has(currentWord),
             direction: 'horizontal',
           });
         }
@@ -225,12 +499,10 @@ function findAllWords(grid: (Letter | null)[][]): WordResult[] {
         positions.push({ row, col });
       } else {
         if (currentWord.length >= 2) {
-          const valid = currentWord.length >= 3 && isValidWord(currentWord);
           words.push({
             word: currentWord,
             positions: [...positions],
-            isValid: valid,
-            isScrabbleValid: valid && isScrabbleWord(currentWord),
+            isValid: currentWord.length >= 3 && dictionary.has(currentWord),
             direction: 'vertical',
           });
         }
@@ -244,74 +516,101 @@ function findAllWords(grid: (Letter | null)[][]): WordResult[] {
   return words;
 }
 
-function areAllLettersConnected(grid: (Letter | null)[][]): boolean {
-  // Find first placed letter
-  let startRow = -1, startCol = -1;
-  const placedCells: Set<string> = new Set();
+// ============ VALIDATION ============
+// Every rule a board has to meet to win, reported with the cells that break it
+
+export type BoardRule =
+  | 'unplaced' // Letters left in the tray
+  | 'too-short' // A two-letter run
+  | 'not-a-word' // A run of three or more that isn't in the word list
+  | 'disconnected' // A group of letters cut off from the largest one
+  | 'orphan' // A letter with no neighbours, so it's in no word
+  | 'too-few-words'; // Fewer than two words on the board
+
+export interface BoardIssue {
+  rule: BoardRule;
+  message: string;
+  cells: { row: number; col: number }[]; // Empty for 'unplaced' - those letters are in the tray
+  word?: string; // The run, for 'too-short' and 'not-a-word'
+}
+
+export interface ValidationReport {
+  isWon: boolean;
+  issues: BoardIssue[]; // Empty exactly when the board is won
+}
+
+// Groups of orthogonally connected letters, largest first
+function findGroups(grid: (Letter | null)[][]): { row: number; col: number }[][] {
+  const groups: { row: number; col: number }[][] = [];
+  const visited = new Set<string>();
 
   for (let row = 0; row < grid.length; row++) {
     for (let col = 0; col < grid[row].length; col++) {
-      if (grid[row][col]) {
-        if (startRow === -1) {
-          startRow = row;
-          startCol = col;
+      if (!grid[row][col] || visited.has(`${row},${col}`)) continue;
+
+      // BFS from here to find everything connected to it
+      const group: { row: number; col: number }[] = [];
+      const queue: [number, number][] = [[row, col]];
+      visited.add(`${row},${col}`);
+      while (queue.length > 0) {
+        const [r, c] = queue.shift()!;
+        group.push({ row: r, col: c });
+        for (const [nr, nc] of [[r - 1, c], [r + 1, c], [r, c - 1], [r, c + 1]]) {
+          const key = `${nr},${nc}`;
+          if (
+            nr >= 0 && nr < grid.length &&
+            nc >= 0 && nc < grid[0].length &&
+            grid[nr][nc] &&
+            !visited.has(key)
+          ) {
+            visited.add(key);
+            queue.push([nr, nc]);
+          }
         }
-        placedCells.add(`${row},${col}`);
-      }
-    }
-  }
-
-  if (placedCells.size === 0) return true;
-
-  // BFS to find all connected letters
-  const visited: Set<string> = new Set();
-  const queue: [number, number][] = [[startRow, startCol]];
-  visited.add(`${startRow},${startCol}`);
-
-  while (queue.length > 0) {
-    const [row, col] = queue.shift()!;
-    const neighbors = [
-      [row - 1, col],
-      [row + 1, col],
-      [row, col - 1],
-      [row, col + 1],
-    ];
-
-    for (const [nr, nc] of neighbors) {
-      const key = `${nr},${nc}`;
-      if (
-        nr >= 0 && nr < grid.length &&
-        nc >= 0 && nc < grid[0].length &&
-        grid[nr][nc] &&
-        !visited.has(key)
-      ) {
-        visited.add(key);
-        queue.push([nr, nc]);
       }
+      groups.push(group);
     }
   }
 
-  return visited.size === placedCells.size;
+  return groups.sort((a, b) => b.length - a.length);
 }
 
-function checkWinCondition(
+function buildReport(
   letters: Letter[],
   words: WordResult[],
   grid: (Letter | null)[][]
-): boolean {
-  // All 12 letters must be placed
-  const allPlaced = letters.every(l => l.position !== null);
-  if (!allPlaced) return false;
-
-  // All letters must be connected
-  if (!areAllLettersConnected(grid)) return false;
+): ValidationReport {
+  const issues: BoardIssue[] = [];
+
+  // Every letter in the hand must be placed
+  const unplaced = letters.filter(l => l.position === null).length;
+  if (unplaced > 0) {
+    issues.push({
+      rule: 'unplaced',
+      message: `${unplaced} ${unplaced === 1 ? 'letter is' : 'letters are'} still in the tray`,
+      cells: [],
+    });
+  }
 
   // All words must be valid (3+ letters)
-  const allWordsValid = words.every(w => w.isValid);
-  if (!allWordsValid) return false;
+  for (const word of words) {
+    if (word.isValid) continue;
+    issues.push(word.word.length < 3
+      ? { rule: 'too-short', message: `${word.word} is only two letters long`, cells: word.positions, word: word.word }
+      : { rule: 'not-a-word', message: `${word.word} isn't in the word list`, cells: word.positions, word: word.word });
+  }
 
-  // Must have at least 2 words
-  if (words.length < 2) return false;
+  // All letters must be connected - a lone letter is reported as an orphan instead, since
+  // it's also in no word
+  const [, ...cutOff] = findGroups(grid);
+  for (const group of cutOff) {
+    if (group.length === 1) continue;
+    issues.push({
+      rule: 'disconnected',
+      message: `${group.length} letters aren't connected to the rest of the board`,
+      cells: group,
+    });
+  }
 
   // Check that all placed letters are part of at least one word
   const lettersInWords = new Set<string>();
@@ -320,30 +619,49 @@ function checkWinCondition(
       lettersInWords.add(`${pos.row},${pos.col}`);
     }
   }
-
   for (const letter of letters) {
     if (letter.position && !lettersInWords.has(`${letter.position.row},${letter.position.col}`)) {
-      return false;
+      issues.push({ rule: 'orphan', message: `${letter.char} isn't part of any word`, cells: [letter.position] });
     }
   }
 
-  return true;
+  // Must have at least 2 words
+  if (words.length < 2) {
+    issues.push({ rule: 'too-few-words', message: 'A win needs at least two words', cells: [] });
+  }
+
+  return { isWon: issues.length === 0, issues };
+}
+
+function checkWinCondition(
+  letters: Letter[],
+  words: WordResult[],
+  grid: (Letter | null)[][]
+): boolean {
+  return buildReport(letters, words, grid).isWon;
+}
+
+/**
+ * Check the board against every winning rule
+ * @returns Each rule the board breaks, with the cells responsible - none when it's won
+ */
+export function validateBoard(state: GameState): ValidationReport {
+  return buildReport(state.letters, state.words, state.grid);
 }
 
 export function shuffleUnplacedLetters(state: GameState): GameState {
   const unplaced = state.letters.filter(l => l.position === null);
   
-  // Shuffle chars among unplaced letters
-  const chars = unplaced.map(l => l.char);
-  for (let i = chars.length - 1; i > 0; i--) {
+  // Shuffle chars among unplaced letters; each keeps its die
+  const faces = unplaced.map(l => ({ char: l.char, die: l.die }));
+  for (let i = faces.length - 1; i > 0; i--) {
     const j = Math.floor(Math.random() * (i + 1));
-    [chars[i], chars[j]] = [chars[j], chars[i]];
+    [faces[i], faces[j]] = [faces[j], faces[i]];
   }
 
   const newLetters = state.letters.map(l => {
     if (l.position === null) {
-      const char = chars.pop()!;
-      return { ...l, char };
+      return { ...l, ...faces.pop()! };
     }
     return l;
   });
@@ -354,8 +672,65 @@ export function shuffleUnplacedLetters(state: GameState): GameState {
   };
 }
 
+// ============ RE-ROLL ============
+// House rule: re-roll one die for a time penalty
+
+export const DEFAULT_REROLL_PENALTY_SECONDS = 10;
+
+export interface RerollOptions {
+  penaltySeconds?: number;
+  rng?: Rng;
+  dictionary?: Dictionary;
+}
+
+/**
+ * Re-roll the die a letter came from and show whichever face comes up
+ * The face may come up the same; a placed letter stays where it is
+ * @returns The new state with the penalty added to its timer, or the same state if the
+ *   letter wasn't rolled on a die
+ */
+export function rerollDie(
+  state: GameState,
+  letterId: string,
+  options: RerollOptions = {}
+): GameState {
+  const {
+    penaltySeconds = DEFAULT_REROLL_PENALTY_SECONDS,
+    rng = Math.random,
+    dictionary = getActiveDictionary(),
+  } = options;
+
+  const letterIndex = state.letters.findIndex(l => l.id === letterId);
+  if (letterIndex === -1) return state;
+
+  const letter = state.letters[letterIndex];
+  if (letter.die === null) return state;
+
+  const faces = ALL_DICE_FACES[letter.die];
+  const newLetter = { ...letter, char: faces[randomInt(rng, faces.length)] };
+  const newLetters = [...state.letters];
+  newLetters[letterIndex] = newLetter;
+
+  const timer = state.timer + penaltySeconds;
+  if (!letter.position) {
+    return { ...state, letters: newLetters, timer };
+  }
+
+  const newGrid = state.grid.map(r => [...r]);
+  newGrid[letter.position.row][letter.position.col] = newLetter;
+  const words = findAllWords(newGrid, dictionary);
+
+  return {
+    ...state,
+    letters: newLetters,
+    grid: newGrid,
+    timer,
+    words,
+    isWon: checkWinCondition(newLetters, words, newGrid),
+  };
+}
+
 // ============ AUTO-SOLVE ALGORITHM ============
 // Using solver-v4 (word-combination-first approach with 100% success rate)
-import { solvePuzzleV4, type SolveResult } from './solver-v4';
 export { type SolveResult };
 export const solvePuzzle = solvePuzzleV4;
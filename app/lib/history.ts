@@ -0,0 +1,77 @@
+// Q-Less Move History
+// Every board change returns a new GameState, so undo and redo just keep the old ones around
+
+import type { GameState } from './gameState';
+
+// Oldest states are dropped past this many undo steps
+const MAX_UNDO_STEPS = 200;
+
+export interface GameHistory {
+  past: GameState[]; // Oldest first
+  present: GameState;
+  future: GameState[]; // Next redo first
+}
+
+/**
+ * Start a fresh history, e.g. for a new deal
+ */
+export function createHistory(state: GameState): GameHistory {
+  return { past: [], present: state, future: [] };
+}
+
+/**
+ * Record a move; anything that was undone can no longer be redone
+ * Unchanged states (a move onto an occupied cell) aren't recorded
+ */
+export function pushState(history: GameHistory, state: GameState): GameHistory {
+  if (state === history.present) return history;
+  return {
+    past: [...history.past, history.present].slice(-MAX_UNDO_STEPS),
+    present: state,
+    future: [],
+  };
+}
+
+/**
+ * Update the current state without recording a step, e.g. while the solver animates its answer
+ */
+export function replacePresent(history: GameHistory, state: GameState): GameHistory {
+  return { ...history, present: state };
+}
+
+/**
+ * Apply the same change to every recorded state, e.g. re-checking words against a new word list
+ */
+export function mapHistory(history: GameHistory, update: (state: GameState) => GameState): GameHistory {
+  return {
+    past: history.past.map(update),
+    present: update(history.present),
+    future: history.future.map(update),
+  };
+}
+
+export function canUndo(history: GameHistory): boolean {
+  return history.past.length > 0;
+}
+
+export function canRedo(history: GameHistory): boolean {
+  return history.future.length > 0;
+}
+
+export function undo(history: GameHistory): GameHistory {
+  if (!canUndo(history)) return history;
+  return {
+    past: history.past.slice(0, -1),
+    present: history.past[history.past.length - 1],
+    future: [history.present, ...history.future],
+  };
+}
+
+export function redo(history: GameHistory): GameHistory {
+  if (!canRedo(history)) return history;
+  return {
+    past: [...history.past, history.present],
+    present: history.future[0],
+    future: history.future.slice(1),
+  };
+}
@@ -0,0 +1,114 @@
+// Q-Less Lexicon Assets
+// Built-in word lists ship as packed DAWG files (see wordIndex.ts) under /public/lexicons,
+// gzipped, and are fetched on demand instead of being bundled as source
+//
+// File layout, little-endian:
+//   u32 magic 'QDWG'
+//   u32 format version
+//   u32 word count
+//   u32 edge count
+//   u32 edges[edge count]
+
+const MAGIC = 0x47574451; // 'QDWG'
+const FORMAT_VERSION = 1;
+const HEADER_BYTES = 16;
+const GZIP_MAGIC = [0x1f, 0x8b];
+
+export interface DawgData {
+  edges: Uint32Array;
+  wordCount: number;
+}
+
+// Called with the fraction downloaded, 0 to 1
+export type LoadProgress = (fraction: number) => void;
+
+export function encodeDawg({ edges, wordCount }: DawgData): Uint8Array {
+  const bytes = new Uint8Array(HEADER_BYTES + edges.length * 4);
+  const view = new DataView(bytes.buffer);
+  view.setUint32(0, MAGIC, true);
+  view.setUint32(4, FORMAT_VERSION, true);
+  view.setUint32(8, wordCount, true);
+  view.setUint32(12, edges.length, true);
+  edges.forEach((edge, i) => view.setUint32(HEADER_BYTES + i * 4, edge, true));
+  return bytes;
+}
+
+/**
+ * Read a packed DAWG file
+ * @throws If the bytes aren't a DAWG file of a supported version
+ */
+export function decodeDawg(bytes: Uint8Array): DawgData {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (bytes.byteLength < HEADER_BYTES || view.getUint32(0, true) !== MAGIC) {
+    throw new Error('Not a Q-Less lexicon file');
+  }
+  const version = view.getUint32(4, true);
+  if (version !== FORMAT_VERSION) {
+    throw new Error(`Unsupported lexicon format version ${version}`);
+  }
+
+  const wordCount = view.getUint32(8, true);
+  const edgeCount = view.getUint32(12, true);
+  if (bytes.byteLength < HEADER_BYTES + edgeCount * 4) {
+    throw new Error('Lexicon file is truncated');
+  }
+
+  const edges = new Uint32Array(edgeCount);
+  for (let i = 0; i < edgeCount; i++) {
+    edges[i] = view.getUint32(HEADER_BYTES + i * 4, true);
+  }
+  return { edges, wordCount };
+}
+
+function isGzipped(bytes: Uint8Array): boolean {
+  return bytes[0] === GZIP_MAGIC[0] && bytes[1] === GZIP_MAGIC[1];
+}
+
+async function gunzip(bytes: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([bytes as BlobPart]).stream().pipeThrough(new DecompressionStream('gzip'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+// Read a response body in chunks so large lists can report progress
+async function readWithProgress(response: Response, onProgress?: LoadProgress): Promise<Uint8Array> {
+  const total = Number(response.headers.get('Content-Length')) || 0;
+  if (!response.body) {
+    return new Uint8Array(await response.arrayBuffer());
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    received += value.byteLength;
+    if (total > 0) onProgress?.(Math.min(received / total, 1));
+  }
+
+  const bytes = new Uint8Array(received);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return bytes;
+}
+
+/**
+ * Fetch and decode a packed DAWG asset
+ * Accepts the file gzipped or not, since some hosts decompress .gz files on the way out
+ * @param url - Asset path, e.g. /lexicons/twl06.dawg.gz
+ * @param onProgress - Download progress callback
+ */
+export async function fetchDawg(url: string, onProgress?: LoadProgress): Promise<DawgData> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to load word list (${response.status})`);
+  }
+
+  const bytes = await readWithProgress(response, onProgress);
+  onProgress?.(1);
+  return decodeDawg(isGzipped(bytes) ? await gunzip(bytes) : bytes);
+}
@@ -0,0 +1,188 @@
+// Q-Less Word List Settings
+// The selected lexicon and any imported custom lists live in IndexedDB -
+// custom lists are far too large for localStorage
+
+import {
+  type Dictionary,
+  type BuiltInDictionaryId,
+  BUILT_IN_DICTIONARIES,
+  createDictionary,
+  loadBuiltInDictionary,
+} from './dictionary';
+import type { LoadProgress } from './lexiconAsset';
+
+const DB_NAME = 'qless';
+const DB_VERSION = 1;
+const LEXICON_STORE = 'lexicons';
+const SETTINGS_STORE = 'settings';
+const ACTIVE_LEXICON_KEY = 'activeLexicon';
+
+export const DEFAULT_LEXICON_ID: BuiltInDictionaryId = 'twl06';
+
+export interface CustomLexicon {
+  id: string;
+  name: string;
+  words: string[];
+  importedAt: number;
+}
+
+export interface LexiconOption {
+  id: string;
+  name: string;
+  description: string;
+  isCustom: boolean;
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(LEXICON_STORE)) {
+        db.createObjectStore(LEXICON_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(SETTINGS_STORE)) {
+        db.createObjectStore(SETTINGS_STORE);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Run one request in its own transaction and close the connection afterwards
+async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest
+): Promise<T> {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = run(db.transaction(storeName, mode).objectStore(storeName));
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+function isBuiltInId(id: string): id is BuiltInDictionaryId {
+  return id in BUILT_IN_DICTIONARIES;
+}
+
+/**
+ * Parse a newline-separated word list (e.g. twl06.txt)
+ * Blank lines, comments (#) and entries with non-letters are skipped
+ */
+export function parseWordList(text: string): string[] {
+  const words: string[] = [];
+  for (const line of text.split(/\r?\n/)) {
+    const word = line.trim();
+    if (!word || word.startsWith('#')) continue;
+    if (/^[a-zA-Z]+$/.test(word)) {
+      words.push(word.toLowerCase());
+    }
+  }
+  return words;
+}
+
+export async function loadActiveLexiconId(): Promise<string> {
+  try {
+    const id = await withStore<string | undefined>(SETTINGS_STORE, 'readonly', store =>
+      store.get(ACTIVE_LEXICON_KEY)
+    );
+    return id || DEFAULT_LEXICON_ID;
+  } catch {
+    return DEFAULT_LEXICON_ID;
+  }
+}
+
+export async function saveActiveLexiconId(id: string): Promise<void> {
+  await withStore(SETTINGS_STORE, 'readwrite', store => store.put(id, ACTIVE_LEXICON_KEY));
+}
+
+export async function listCustomLexicons(): Promise<CustomLexicon[]> {
+  try {
+    return await withStore<CustomLexicon[]>(LEXICON_STORE, 'readonly', store => store.getAll());
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Import a custom word list
+ * @param name - Display name, usually the file name
+ * @param text - File contents, one word per line
+ * @throws If the file contains no usable words
+ */
+export async function importCustomLexicon(name: string, text: string): Promise<CustomLexicon> {
+  const words = parseWordList(text);
+  if (words.length === 0) {
+    throw new Error('No words found - expected one word per line');
+  }
+
+  const lexicon: CustomLexicon = {
+    id: `custom-${Date.now()}`,
+    name,
+    words,
+    importedAt: Date.now(),
+  };
+  await withStore(LEXICON_STORE, 'readwrite', store => store.put(lexicon));
+  return lexicon;
+}
+
+export async function deleteCustomLexicon(id: string): Promise<void> {
+  await withStore(LEXICON_STORE, 'readwrite', store => store.delete(id));
+}
+
+// Built-in lists first, then imports oldest to newest
+export async function listLexiconOptions(): Promise<LexiconOption[]> {
+  const builtIns: LexiconOption[] = Object.values(BUILT_IN_DICTIONARIES).map(d => ({
+    id: d.id,
+    name: d.name,
+    description: d.description,
+    isCustom: false,
+  }));
+  const customs = (await listCustomLexicons())
+    .sort((a, b) => a.importedAt - b.importedAt)
+    .map(c => ({
+      id: c.id,
+      name: c.name,
+      description: `Imported list, ${c.words.length.toLocaleString()} words`,
+      isCustom: true,
+    }));
+  return [...builtIns, ...customs];
+}
+
+/**
+ * Load the dictionary for a lexicon id
+ * Unknown or deleted custom ids fall back to the default list
+ * @param onProgress - Download progress for built-in lists
+ */
+export async function resolveDictionary(id: string, onProgress?: LoadProgress): Promise<Dictionary> {
+  if (isBuiltInId(id)) {
+    return loadBuiltInDictionary(id, onProgress);
+  }
+
+  try {
+    const custom = await withStore<CustomLexicon | undefined>(LEXICON_STORE, 'readonly', store =>
+      store.get(id)
+    );
+    if (custom) {
+      return createDictionary(
+        { id: custom.id, name: custom.name, description: 'Imported word list' },
+        custom.words
+      );
+    }
+  } catch {
+    // Fall through to the default list
+  }
+  return loadBuiltInDictionary(DEFAULT_LEXICON_ID, onProgress);
+}
@@ -0,0 +1,196 @@
+// Q-Less Head-to-Head
+// Two players race on the same roll: each gets their own board dealt from one seed, and the
+// first valid board wins. On one device the boards sit side by side, or the players take
+// turns with the device and the faster time wins; two tabs race over a BroadcastChannel
+//
+// Match codes carry what a second tab needs to deal the same board:
+// <seed in base36>-<hand size>-<board size>[a]   ('a' for an auto-expanding board)
+// Example: 1x2f9k-12-8
+
+import {
+  type GameState,
+  HAND_SIZES,
+  createInitialState,
+  expandGrid,
+  setBoard,
+} from './gameState';
+import { type BoardConfig, GRID_SIZE_OPTIONS, boardForHand } from './board';
+import { type GameHistory, createHistory, pushState, undo } from './history';
+import { type Dictionary, getActiveDictionary } from './dictionary';
+
+const MATCH_CHANNEL = 'qless-match';
+
+// Split keeps both boards on one screen; turns passes the device between players; tabs puts
+// each player in their own tab
+export type MatchLayout = 'split' | 'turns' | 'tabs';
+
+export interface MatchSetup {
+  seed: number;
+  handSize: number;
+  board: BoardConfig;
+}
+
+export interface MatchPlayer {
+  name: string;
+  history: GameHistory;
+  startedAt: number | null; // Timestamp the player's clock started; null until their turn
+  time: number | null; // Seconds to a valid board; null until they finish
+  gaveUp: boolean;
+}
+
+// What a tab tells the other when its player finishes
+export interface MatchFinish {
+  code: string; // Match code, so unrelated matches in other tabs are ignored
+  name: string;
+  time: number;
+  words: string[];
+  placed: number;
+}
+
+export interface MatchSummary {
+  name: string;
+  time: number | null; // Null when they didn't finish
+  words: string[]; // Valid words on their board
+  placed: number;
+  isWinner: boolean;
+}
+
+/**
+ * Deal one player's board - the same seed always deals the same letters
+ */
+export function createMatchBoard(setup: MatchSetup, dictionary: Dictionary = getActiveDictionary()): GameState {
+  const state = createInitialState(setup.seed, setup.handSize);
+  return setBoard(state, boardForHand(setup.board, setup.handSize), dictionary);
+}
+
+/**
+ * Seat the players; in split and tab matches every clock starts together, while taking turns
+ * starts each clock when that player's turn begins (see startTurn)
+ */
+export function createMatchPlayers(
+  names: string[],
+  setup: MatchSetup,
+  layout: MatchLayout,
+  now: number = Date.now(),
+  dictionary: Dictionary = getActiveDictionary()
+): MatchPlayer[] {
+  const board = createMatchBoard(setup, dictionary);
+  return names.map(name => ({
+    name,
+    history: createHistory(board),
+    startedAt: layout === 'turns' ? null : now,
+    time: null,
+    gaveUp: false,
+  }));
+}
+
+export function startTurn(player: MatchPlayer, now: number = Date.now()): MatchPlayer {
+  return { ...player, startedAt: now };
+}
+
+/**
+ * Record a move on a player's board, growing an auto-expanding grid like the main game
+ * The clock stops the moment the board is valid
+ */
+export function playMove(
+  player: MatchPlayer,
+  next: GameState,
+  now: number = Date.now(),
+  dictionary: Dictionary = getActiveDictionary()
+): MatchPlayer {
+  if (player.time !== null || player.gaveUp || player.startedAt === null) return player;
+
+  const history = pushState(player.history, expandGrid(next, dictionary));
+  const time = history.present.isWon ? Math.floor((now - player.startedAt) / 1000) : null;
+  return { ...player, history, time };
+}
+
+export function undoMove(player: MatchPlayer): MatchPlayer {
+  if (player.time !== null || player.gaveUp) return player;
+  return { ...player, history: undo(player.history) };
+}
+
+export function isPlayerDone(player: MatchPlayer): boolean {
+  return player.time !== null || player.gaveUp;
+}
+
+/**
+ * Whether the match is decided: the first finish ends a race, while taking turns waits for
+ * everyone to have had a go
+ */
+export function isMatchOver(players: MatchPlayer[], layout: MatchLayout): boolean {
+  return layout === 'turns' ? players.every(isPlayerDone) : players.some(p => p.time !== null);
+}
+
+/**
+ * Compare the players' boards, fastest finisher first
+ * Equal best times are a draw, so nobody is marked the winner
+ * @param remote - Finishes reported by players in other tabs
+ */
+export function summarizeMatch(players: MatchPlayer[], remote: MatchFinish[] = []): MatchSummary[] {
+  const entries = [
+    ...players.map(player => ({
+      name: player.name,
+      time: player.time,
+      words: player.history.present.words.filter(w => w.isValid).map(w => w.word),
+      placed: player.history.present.placementOrder.length,
+    })),
+    ...remote.map(({ name, time, words, placed }) => ({ name, time, words, placed })),
+  ];
+  return rankMatch(entries);
+}
+
+/**
+ * Order finished and unfinished boards and mark the winner, as summarizeMatch does
+ */
+export function rankMatch(entries: Omit<MatchSummary, 'isWinner'>[]): MatchSummary[] {
+  const times = entries.map(e => e.time).filter((t): t is number => t !== null);
+  const best = times.length > 0 ? Math.min(...times) : null;
+  const isDraw = times.filter(t => t === best).length > 1;
+
+  return entries
+    .map(entry => ({ ...entry, isWinner: !isDraw && best !== null && entry.time === best }))
+    .sort((a, b) => (a.time ?? Infinity) - (b.time ?? Infinity));
+}
+
+export function encodeMatchCode(setup: MatchSetup): string {
+  return `${setup.seed.toString(36)}-${setup.handSize}-${setup.board.size}${setup.board.autoExpand ? 'a' : ''}`;
+}
+
+/**
+ * Read a match code back
+ * @returns The setup, or null if the code is malformed
+ */
+export function decodeMatchCode(code: string): MatchSetup | null {
+  const match = /^([0-9a-z]{1,7})-(\d{1,2})-(\d{1,2})(a?)$/.exec(code);
+  if (!match) return null;
+
+  const seed = parseInt(match[1], 36);
+  const handSize = Number(match[2]);
+  const size = Number(match[3]);
+  if (seed > 0xffffffff || !HAND_SIZES.includes(handSize) || !GRID_SIZE_OPTIONS.includes(size)) return null;
+
+  return { seed, handSize, board: { size, autoExpand: match[4] === 'a' } };
+}
+
+/**
+ * Listen for the other tab finishing; returns a function that posts this tab's finish, and
+ * one that stops listening. Does nothing where BroadcastChannel isn't available
+ */
+export function openMatchChannel(
+  code: string,
+  onFinish: (finish: MatchFinish) => void
+): { post: (finish: Omit<MatchFinish, 'code'>) => void; close: () => void } {
+  if (typeof BroadcastChannel === 'undefined') {
+    return { post: () => {}, close: () => {} };
+  }
+
+  const channel = new BroadcastChannel(MATCH_CHANNEL);
+  channel.onmessage = (event: MessageEvent<MatchFinish>) => {
+    if (event.data?.code === code) onFinish(event.data);
+  };
+  return {
+    post: finish => channel.postMessage({ ...finish, code }),
+    close: () => channel.close(),
+  };
+}
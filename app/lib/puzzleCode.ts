@@ -0,0 +1,105 @@
+// Q-Less Puzzle Codes
+// Compact, URL-safe strings for sharing a roll (and optionally an arrangement of it)
+//
+// Format: <version><letters>[.<cells>]
+// - version: '1'
+// - letters: lowercase a-z, in Letter order - one of HAND_SIZES (12 in the standard game)
+// - cells: one base64url char per letter giving row * 8 + col, or '~' if the letter is unplaced.
+//   Arrangements on bigger boards are shifted into the top-left 8x8 when they fit there
+//
+// Example: 1pwtxirmtpnda.KLMNOPcks~~~
+
+import { type GameState, HAND_SIZES } from './gameState';
+
+const CODE_VERSION = '1';
+const CODE_GRID_SIZE = 8;
+const CELL_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_';
+const UNPLACED = '~';
+const SEPARATOR = '.';
+
+export type CellPosition = { row: number; col: number };
+
+export interface DecodedPuzzle {
+  letters: string[]; // Uppercase, in Letter order
+  positions: (CellPosition | null)[] | null; // Present only when the code carries a grid
+}
+
+/**
+ * Encode a roll as a share code
+ * @param letters - The hand's letters, in order
+ * @param positions - Optional grid position per letter (null for letters left in the tray)
+ */
+export function encodePuzzle(letters: string[], positions?: (CellPosition | null)[]): string {
+  let code = CODE_VERSION + letters.join('').toLowerCase();
+
+  if (positions) {
+    code += SEPARATOR;
+    for (const pos of positions) {
+      code += pos ? CELL_ALPHABET[pos.row * CODE_GRID_SIZE + pos.col] : UNPLACED;
+    }
+  }
+
+  return code;
+}
+
+// The positions moved as close to the top-left as they go, or null if they span more than a code can hold
+function fitToCodeGrid(positions: (CellPosition | null)[]): (CellPosition | null)[] | null {
+  const placed = positions.filter((p): p is CellPosition => p !== null);
+  if (placed.length === 0) return positions;
+
+  const top = Math.min(...placed.map(p => p.row));
+  const left = Math.min(...placed.map(p => p.col));
+  const fits = placed.every(p => p.row - top < CODE_GRID_SIZE && p.col - left < CODE_GRID_SIZE);
+  if (!fits) return null;
+
+  // Keep the layout where it is if it's already inside the code's grid
+  const inPlace = placed.every(p => p.row < CODE_GRID_SIZE && p.col < CODE_GRID_SIZE);
+  if (inPlace) return positions;
+  return positions.map(p => p && { row: p.row - top, col: p.col - left });
+}
+
+/**
+ * Encode the letters of a game, optionally with its current arrangement
+ * An arrangement too spread out for a code's 8x8 grid is left out
+ */
+export function encodeGameState(state: GameState, includeGrid: boolean = false): string {
+  return encodePuzzle(
+    state.letters.map(l => l.char),
+    (includeGrid && fitToCodeGrid(state.letters.map(l => l.position))) || undefined
+  );
+}
+
+/**
+ * Decode a share code
+ * @returns The decoded puzzle, or null if the code is malformed
+ */
+export function decodePuzzle(code: string): DecodedPuzzle | null {
+  const trimmed = code.trim();
+  if (!trimmed.startsWith(CODE_VERSION)) return null;
+
+  const [letterPart, cellPart, ...rest] = trimmed.slice(CODE_VERSION.length).split(SEPARATOR);
+  if (rest.length > 0) return null;
+  if (!/^[a-zA-Z]+$/.test(letterPart) || !HAND_SIZES.includes(letterPart.length)) return null;
+
+  const letters = letterPart.toUpperCase().split('');
+  if (cellPart === undefined) {
+    return { letters, positions: null };
+  }
+
+  if (cellPart.length !== letters.length) return null;
+
+  const positions: (CellPosition | null)[] = [];
+  const usedCells = new Set<number>();
+  for (const char of cellPart) {
+    if (char === UNPLACED) {
+      positions.push(null);
+      continue;
+    }
+    const index = CELL_ALPHABET.indexOf(char);
+    if (index === -1 || usedCells.has(index)) return null;
+    usedCells.add(index);
+    positions.push({ row: Math.floor(index / CODE_GRID_SIZE), col: index % CODE_GRID_SIZE });
+  }
+
+  return { letters, positions };
+}
@@ -0,0 +1,198 @@
+// Network race tests: npm test
+// Races are played on race states directly, then two peers race over the in-memory transport
+
+import { describe, it } from 'node:test';
+import { strict as assert } from 'node:assert';
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { gunzipSync } from 'node:zlib';
+import { BUILT_IN_DICTIONARIES, createDictionaryFromIndex, setActiveDictionary } from './dictionary';
+import { placeLetter } from './gameState';
+import { decodeDawg } from './lexiconAsset';
+import { solveExact } from './exactSolver';
+import { createWordIndex } from './wordIndex';
+import { type MatchPlayer, type MatchSetup, createMatchPlayers, playMove } from './match';
+import {
+  type RaceMessage,
+  type RaceState,
+  type RaceTransport,
+  RACE_COUNTDOWN_MS,
+  applyRaceEvent,
+  boardMessage,
+  createRace,
+  isRaceOver,
+  ownEvent,
+  summarizeRace,
+} from './race';
+import { type MemoryNetwork, createMemoryNetwork } from './transport';
+
+const NOW = 1_000_000;
+const BOARD = { size: 8, autoExpand: false };
+
+const setup = (seed: number): MatchSetup => ({ seed, handSize: 12, board: BOARD });
+const start = (seed: number): RaceMessage => ({ type: 'start', setup: setup(seed), countdownMs: RACE_COUNTDOWN_MS });
+
+// A race this peer is in with everyone named, as after the hellos
+function raceWith(selfId: string, ...others: string[]): RaceState {
+  return others.reduce(
+    (race, id) => applyRaceEvent(race, { type: 'message', from: id, message: { type: 'hello', name: id } }, NOW),
+    createRace(selfId, selfId)
+  );
+}
+
+function hear(race: RaceState, from: string, message: RaceMessage, now = NOW): RaceState {
+  return applyRaceEvent(race, { type: 'message', from, message }, now);
+}
+
+describe('applyRaceEvent', () => {
+  describe('competing starts', () => {
+    it('keeps the lower peer id when its start arrives first', () => {
+      let race = raceWith('a', 'b');
+      race = applyRaceEvent(race, ownEvent(race, start(11)), NOW);
+      race = hear(race, 'b', start(22), NOW + 10);
+      assert.equal(race.setup?.seed, 11);
+      assert.equal(race.dealtBy, 'a');
+      assert.equal(race.startsAt, NOW + RACE_COUNTDOWN_MS);
+    });
+
+    it('gives way to the lower peer id when its start arrives second', () => {
+      let race = raceWith('b', 'a');
+      race = applyRaceEvent(race, ownEvent(race, start(22)), NOW);
+      race = hear(race, 'a', start(11), NOW + 10);
+      assert.equal(race.setup?.seed, 11);
+      assert.equal(race.dealtBy, 'a');
+      assert.equal(race.startsAt, NOW + 10 + RACE_COUNTDOWN_MS);
+    });
+
+    it('takes any start once the countdown is over', () => {
+      let race = hear(raceWith('b', 'a'), 'a', start(11));
+      race = hear(race, 'c', start(33), NOW + RACE_COUNTDOWN_MS);
+      assert.equal(race.setup?.seed, 33);
+      assert.equal(race.dealtBy, 'c');
+    });
+
+    it('resets every board for a new deal', () => {
+      let race = hear(raceWith('a', 'b'), 'b', start(22));
+      race = hear(race, 'b', { type: 'finish', time: 30, placed: 12, words: ['CAT'] });
+      race = hear(race, 'a', start(11), NOW + 60_000);
+      assert.ok(race.peers.every(p => p.placed === 0 && p.words.length === 0 && p.time === null));
+      assert.equal(isRaceOver(race), false);
+    });
+  });
+
+  describe('progress', () => {
+    it('is ignored before anyone deals', () => {
+      const race = hear(raceWith('a', 'b'), 'b', { type: 'progress', placed: 3, words: [] });
+      assert.equal(race.peers.find(p => p.id === 'b')?.placed, 0);
+    });
+
+    it('still counts when it arrives after another peer finished', () => {
+      let race = hear(raceWith('a', 'b', 'c'), 'a', start(11));
+      race = hear(race, 'b', { type: 'finish', time: 40, placed: 12, words: ['CAT'] });
+      race = hear(race, 'c', { type: 'progress', placed: 5, words: ['DOG'] });
+      assert.ok(isRaceOver(race));
+      assert.deepEqual(race.peers.find(p => p.id === 'c'), { id: 'c', name: 'c', placed: 5, words: ['DOG'], time: null });
+    });
+
+    it("doesn't undo the sender's own finish", () => {
+      let race = hear(raceWith('a', 'b'), 'a', start(11));
+      race = hear(race, 'b', { type: 'finish', time: 40, placed: 12, words: ['CAT'] });
+      race = hear(race, 'b', { type: 'progress', placed: 11, words: [] });
+      assert.deepEqual(race.peers.find(p => p.id === 'b'), { id: 'b', name: 'b', placed: 12, words: ['CAT'], time: 40 });
+    });
+  });
+
+  it('drops a peer that leaves', () => {
+    let race = hear(raceWith('a', 'b', 'c'), 'a', start(11));
+    race = applyRaceEvent(race, { type: 'peer-left', peer: 'b' }, NOW);
+    assert.deepEqual(race.peers.map(p => p.id), ['a', 'c']);
+    assert.equal(race.setup?.seed, 11);
+  });
+});
+
+describe('a two-peer race over the memory transport', () => {
+  const { url, ...meta } = BUILT_IN_DICTIONARIES.twl06;
+  const { edges, wordCount } = decodeDawg(gunzipSync(readFileSync(join(__dirname, '..', '..', 'public', url))));
+  const dictionary = createDictionaryFromIndex(meta, createWordIndex(edges, wordCount));
+  setActiveDictionary(dictionary);
+
+  interface Peer {
+    transport: RaceTransport;
+    race: RaceState;
+  }
+
+  // Each peer keeps its own copy of the race, as NetworkRace does
+  function joinPeer(network: MemoryNetwork<RaceMessage>, id: string, name: string): Peer {
+    const peer: Peer = { transport: network.connect(id), race: createRace(id, name) };
+    peer.transport.subscribe(event => {
+      if (event.type === 'peer-joined') peer.transport.send({ type: 'hello', name });
+      peer.race = applyRaceEvent(peer.race, event);
+    });
+    return peer;
+  }
+
+  function send(peer: Peer, message: RaceMessage) {
+    peer.transport.send(message);
+    peer.race = applyRaceEvent(peer.race, ownEvent(peer.race, message));
+  }
+
+  // Let every queued message arrive
+  const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+
+  function dealtBoard(peer: Peer): MatchPlayer {
+    const { setup, startsAt, peers, selfId } = peer.race;
+    assert.ok(setup && startsAt !== null, `${selfId} has no race to play`);
+    const name = peers.find(p => p.id === selfId)!.name;
+    return createMatchPlayers([name], setup, 'tabs', startsAt, dictionary)[0];
+  }
+
+  it('settles competing deals and agrees on the result', async () => {
+    const network = createMemoryNetwork<RaceMessage>();
+    const alice = joinPeer(network, 'a', 'Alice');
+    const bob = joinPeer(network, 'b', 'Bob');
+    await settle();
+    assert.deepEqual(alice.race.peers.map(p => p.name), ['Alice', 'Bob']);
+    assert.deepEqual(bob.race.peers.map(p => p.name), ['Bob', 'Alice']);
+
+    // Both deal before hearing the other
+    send(alice, start(11));
+    send(bob, start(22));
+    await settle();
+    assert.equal(alice.race.setup?.seed, 11);
+    assert.equal(bob.race.setup?.seed, 11);
+
+    let aliceBoard = dealtBoard(alice);
+    let bobBoard = dealtBoard(bob);
+    const solution = solveExact(aliceBoard.history.present.letters, { dictionary });
+    assert.equal(solution.status, 'solved');
+    if (solution.status !== 'solved') return;
+
+    // Bob gets three letters down, then Alice finishes
+    for (const { letterId, row, col } of solution.placements.slice(0, 3)) {
+      bobBoard = playMove(bobBoard, placeLetter(bobBoard.history.present, letterId, row, col, dictionary));
+      send(bob, boardMessage(bobBoard.history.present, 0));
+    }
+    const finishedAt = aliceBoard.startedAt! + 42_000;
+    for (const { letterId, row, col } of solution.placements) {
+      aliceBoard = playMove(aliceBoard, placeLetter(aliceBoard.history.present, letterId, row, col, dictionary), finishedAt);
+      send(alice, boardMessage(aliceBoard.history.present, aliceBoard.time ?? 0));
+    }
+    await settle();
+
+    const [aliceSummary, bobSummary] = [alice, bob].map(peer => summarizeRace(peer.race));
+    assert.deepEqual(aliceSummary, bobSummary);
+    const [winner, runnerUp] = aliceSummary;
+    assert.equal(winner.name, 'Alice');
+    assert.equal(winner.time, 42);
+    assert.ok(winner.isWinner);
+    assert.equal(runnerUp.name, 'Bob');
+    assert.equal(runnerUp.placed, 3);
+    assert.ok(!runnerUp.isWinner);
+
+    // Leaving takes a peer out of everyone else's race
+    bob.transport.close();
+    await settle();
+    assert.deepEqual(alice.race.peers.map(p => p.name), ['Alice']);
+    alice.transport.close();
+  });
+});
@@ -0,0 +1,165 @@
+// Q-Less Network Races
+// Head-to-head across devices: any peer deals a roll, everyone counts down together, and each
+// board's progress is shared as it happens. The first valid board wins, as in a split-screen
+// match. Races run over any PeerTransport (see transport.ts)
+//
+// Every peer applies the same messages to its own copy of the race, including the ones it
+// sends itself, so no peer is in charge. When two peers deal at once, each hears its own start
+// first; so that everyone still ends up on one roll, a start that arrives during another's
+// countdown only takes over if its sender's id sorts first
+
+import type { GameState } from './gameState';
+import type { PeerTransport, TransportEvent } from './transport';
+import { type MatchSetup, type MatchSummary, rankMatch } from './match';
+
+const RACE_ROOM_KEY = 'qless-race-room';
+
+// The signaling server runs alongside the game on this port unless told otherwise
+export const DEFAULT_SIGNALING_PORT = 8787;
+
+// Long enough to get a hand on the device, short enough not to drag between rematches
+export const RACE_COUNTDOWN_MS = 3000;
+
+export type RaceMessage =
+  | { type: 'hello'; name: string } // Sent to each peer as it connects
+  | { type: 'start'; setup: MatchSetup; countdownMs: number }
+  | { type: 'progress'; placed: number; words: string[] }
+  | { type: 'finish'; time: number; placed: number; words: string[] };
+
+export type RaceTransport = PeerTransport<RaceMessage>;
+
+// Where this device last met its opponents
+export interface RaceRoom {
+  signalingUrl: string;
+  room: string;
+}
+
+export interface RacePeer {
+  id: string;
+  name: string;
+  placed: number;
+  words: string[]; // Valid words on their board
+  time: number | null; // Seconds to a valid board; null until they finish
+}
+
+export interface RaceState {
+  selfId: string;
+  peers: RacePeer[]; // Everyone in the room, this peer included, in the order they arrived
+  setup: MatchSetup | null; // The roll being raced; null until someone deals
+  dealtBy: string | null; // Peer whose start is being raced
+  startsAt: number | null; // Local timestamp the boards unlock - peers' clocks needn't agree
+}
+
+export function createRace(selfId: string, name: string): RaceState {
+  return {
+    selfId,
+    peers: [{ id: selfId, name, placed: 0, words: [], time: null }],
+    setup: null,
+    dealtBy: null,
+    startsAt: null,
+  };
+}
+
+function updatePeer(state: RaceState, id: string, update: Partial<RacePeer>): RaceState {
+  return { ...state, peers: state.peers.map(p => (p.id === id ? { ...p, ...update } : p)) };
+}
+
+/**
+ * Apply something heard from the transport (or sent by this peer) to the race
+ * @param now - Local time the event arrived, used to schedule the start
+ */
+export function applyRaceEvent(
+  state: RaceState,
+  event: TransportEvent<RaceMessage>,
+  now: number = Date.now()
+): RaceState {
+  if (event.type === 'peer-joined') return state; // They introduce themselves once connected
+  if (event.type === 'peer-left') {
+    return { ...state, peers: state.peers.filter(p => p.id !== event.peer) };
+  }
+
+  const { from, message } = event;
+  switch (message.type) {
+    case 'hello':
+      if (state.peers.some(p => p.id === from)) return updatePeer(state, from, { name: message.name });
+      return { ...state, peers: [...state.peers, { id: from, name: message.name, placed: 0, words: [], time: null }] };
+
+    case 'start':
+      // Competing deals: the lowest peer id wins, whichever order the starts arrive in
+      if (state.dealtBy !== null && state.startsAt !== null && now < state.startsAt && from > state.dealtBy) {
+        return state;
+      }
+      return {
+        ...state,
+        setup: message.setup,
+        dealtBy: from,
+        startsAt: now + message.countdownMs,
+        peers: state.peers.map(p => ({ ...p, placed: 0, words: [], time: null })),
+      };
+
+    case 'progress':
+      // Progress can still be in flight when someone else's finish ends the race, so it counts
+      // until that board is finished itself - the losers' boards lock once they hear the finish
+      if (state.setup === null || state.peers.some(p => p.id === from && p.time !== null)) return state;
+      return updatePeer(state, from, { placed: message.placed, words: message.words });
+
+    case 'finish':
+      if (state.setup === null) return state;
+      return updatePeer(state, from, { placed: message.placed, words: message.words, time: message.time });
+  }
+}
+
+/**
+ * A message this peer sent, as an event to apply to its own race
+ */
+export function ownEvent(state: RaceState, message: RaceMessage): TransportEvent<RaceMessage> {
+  return { type: 'message', from: state.selfId, message };
+}
+
+/**
+ * What this peer's board tells the others after a move: a finish once it's valid, otherwise
+ * progress
+ * @param time - Seconds since the race started
+ */
+export function boardMessage(board: GameState, time: number): RaceMessage {
+  const words = board.words.filter(w => w.isValid).map(w => w.word);
+  const placed = board.placementOrder.length;
+  return board.isWon ? { type: 'finish', time, placed, words } : { type: 'progress', placed, words };
+}
+
+export function isRaceOver(state: RaceState): boolean {
+  return state.setup !== null && state.peers.some(p => p.time !== null);
+}
+
+/**
+ * Rank the peers' boards the way a head-to-head match does
+ */
+export function summarizeRace(state: RaceState): MatchSummary[] {
+  return rankMatch(state.peers.map(({ name, time, words, placed }) => ({ name, time, words, placed })));
+}
+
+export function loadRaceRoom(): RaceRoom {
+  const fallback: RaceRoom = {
+    signalingUrl: typeof window === 'undefined' ? '' : `http://${window.location.hostname}:${DEFAULT_SIGNALING_PORT}`,
+    room: 'office',
+  };
+  if (typeof window === 'undefined') return fallback;
+
+  try {
+    const saved = localStorage.getItem(RACE_ROOM_KEY);
+    if (saved) return { ...fallback, ...JSON.parse(saved) };
+  } catch {
+    // Ignore errors
+  }
+  return fallback;
+}
+
+export function saveRaceRoom(room: RaceRoom): void {
+  if (typeof window === 'undefined') return;
+
+  try {
+    localStorage.setItem(RACE_ROOM_KEY, JSON.stringify(room));
+  } catch {
+    // Ignore errors
+  }
+}
@@ -0,0 +1,56 @@
+// Seedable pseudo-random numbers
+// Every random choice in a deal goes through an Rng so a roll can be replayed from its seed
+
+// Returns a float in [0, 1), like Math.random
+export type Rng = () => number;
+
+export type Seed = number | string;
+
+/**
+ * Hash a string seed into a 32-bit unsigned integer (FNV-1a)
+ * @param text - Any string, e.g. a date or share code
+ * @returns A 32-bit seed
+ */
+export function hashSeed(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Create a deterministic generator (mulberry32)
+ * @param seed - Numeric or string seed; the same seed always yields the same sequence
+ * @returns A function producing floats in [0, 1)
+ */
+export function createRng(seed: Seed): Rng {
+  let state = typeof seed === 'string' ? hashSeed(seed) : seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Pick a fresh seed for games that don't ask for one
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 4294967296);
+}
+
+// Integer in [0, max)
+export function randomInt(rng: Rng, max: number): number {
+  return Math.floor(rng() * max);
+}
+
+// Fisher-Yates shuffle in place
+export function shuffleInPlace<T>(items: T[], rng: Rng): T[] {
+  for (let i = items.length - 1; i > 0; i--) {
+    const j = randomInt(rng, i + 1);
+    [items[i], items[j]] = [items[j], items[i]];
+  }
+  return items;
+}
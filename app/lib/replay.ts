@@ -0,0 +1,164 @@
+// Q-Less Replays
+// A game is recorded as the board it started from plus a timestamped log of every action.
+// Replaying runs the same actions through the same state functions, so every frame of the
+// replay is exactly the board the player saw
+
+import {
+  type GameState,
+  type Letter,
+  type PlayMode,
+  boardShape,
+  expandGrid,
+  fitPlacements,
+  placeLetter,
+  refreshWords,
+  removeLetter,
+  restoreState,
+} from './gameState';
+import {
+  type GameHistory,
+  createHistory,
+  pushState,
+  redo,
+  replacePresent,
+  undo,
+} from './history';
+import { type Dictionary, getActiveDictionary } from './dictionary';
+import type { BoardShape } from './board';
+
+const REPLAY_VERSION = 2;
+
+export type ReplayAction =
+  | { type: 'place'; letterId: string; row: number; col: number } // From the tray
+  | { type: 'move'; letterId: string; row: number; col: number } // From one cell to another
+  | { type: 'remove'; letterId: string }
+  | { type: 'swap'; letterId: string; otherId: string }
+  | { type: 'shuffle'; faces: Pick<Letter, 'id' | 'char' | 'die'>[] } // The tray as it came out
+  | { type: 'reroll'; letterId: string; char: string }
+  | { type: 'solve'; placements: { letterId: string; row: number; col: number }[] } // Board cleared, then filled in
+  | { type: 'undo' }
+  | { type: 'redo' };
+
+export interface ReplayEvent {
+  at: number; // Milliseconds since the log started
+  action: ReplayAction;
+}
+
+export interface ReplayLog {
+  version: number;
+  mode: PlayMode;
+  seed: number;
+  startedAt: number; // Timestamp
+  letters: Letter[]; // The board the log starts from - a resumed game starts part-way through
+  board: BoardShape; // Grid the letters start on; cells in actions are on the grid as it was then
+  events: ReplayEvent[];
+}
+
+/**
+ * Start recording from a board
+ */
+export function createReplayLog(state: GameState, mode: PlayMode, now: number = Date.now()): ReplayLog {
+  return {
+    version: REPLAY_VERSION,
+    mode,
+    seed: state.seed,
+    startedAt: now,
+    letters: state.letters,
+    board: boardShape(state),
+    events: [],
+  };
+}
+
+/**
+ * Add an action to the end of a log
+ */
+export function recordAction(log: ReplayLog, action: ReplayAction, now: number = Date.now()): ReplayLog {
+  return { ...log, events: [...log.events, { at: now - log.startedAt, action }] };
+}
+
+function clearBoard(state: GameState, dictionary: Dictionary): GameState {
+  return state.placementOrder.reduce((cleared, id) => removeLetter(cleared, id, dictionary), state);
+}
+
+// Mirrors what the game does with its history for each action, including growing an
+// auto-expanding grid after every move
+function applyAction(history: GameHistory, action: ReplayAction, dictionary: Dictionary): GameHistory {
+  const state = history.present;
+  const push = (next: GameState) => pushState(history, expandGrid(next, dictionary));
+
+  switch (action.type) {
+    case 'place':
+    case 'move':
+      return push(placeLetter(state, action.letterId, action.row, action.col, dictionary));
+
+    case 'remove':
+      return push(removeLetter(state, action.letterId, dictionary));
+
+    case 'swap': {
+      const a = state.letters.find(l => l.id === action.letterId)?.position;
+      const b = state.letters.find(l => l.id === action.otherId)?.position;
+      if (!a || !b) return history;
+      let next = removeLetter(state, action.letterId, dictionary);
+      next = removeLetter(next, action.otherId, dictionary);
+      next = placeLetter(next, action.otherId, a.row, a.col, dictionary);
+      next = placeLetter(next, action.letterId, b.row, b.col, dictionary);
+      return push(next);
+    }
+
+    case 'shuffle': {
+      const faces = new Map(action.faces.map(f => [f.id, f]));
+      return pushState(history, {
+        ...state,
+        letters: state.letters.map(l => {
+          const face = faces.get(l.id);
+          return face ? { ...l, char: face.char, die: face.die } : l;
+        }),
+      });
+    }
+
+    // The face that came up is recorded, so the replay doesn't roll again
+    case 'reroll': {
+      const letters = state.letters.map(l => (l.id === action.letterId ? { ...l, char: action.char } : l));
+      const rerolled = letters.find(l => l.id === action.letterId);
+      const grid = state.grid.map(row => row.map(cell => (cell && cell.id === action.letterId ? rerolled! : cell)));
+      return push(refreshWords({ ...state, letters, grid }, dictionary));
+    }
+
+    // Clearing the board is one undo step; the solution fills in on top of it
+    case 'solve': {
+      const cleared = push(clearBoard(state, dictionary));
+      const solved = action.placements.reduce(
+        (current, p) => placeLetter(current, p.letterId, p.row, p.col, dictionary),
+        fitPlacements(cleared.present, action.placements, dictionary)
+      );
+      return replacePresent(cleared, expandGrid(solved, dictionary));
+    }
+
+    case 'undo':
+      return undo(history);
+
+    case 'redo':
+      return redo(history);
+  }
+}
+
+/**
+ * Work out the board after every event
+ * @returns One state per event plus the starting board, which comes first
+ */
+export function buildReplayFrames(log: ReplayLog, dictionary: Dictionary = getActiveDictionary()): GameState[] {
+  let history = createHistory(restoreState(log.letters, log.seed, undefined, dictionary, log.board));
+  const frames = [history.present];
+  for (const { action } of log.events) {
+    history = applyAction(history, action, dictionary);
+    frames.push(history.present);
+  }
+  return frames;
+}
+
+/**
+ * The log as a JSON file's contents
+ */
+export function exportReplay(log: ReplayLog): string {
+  return JSON.stringify(log, null, 2);
+}
@@ -0,0 +1,188 @@
+// Q-Less Saved Game
+// The game in progress is written to localStorage after every move so a reload or a closed
+// app can pick it up again. Only the letters and the grid's size are stored; grids and words
+// are rebuilt on load
+
+import {
+  type GameState,
+  type Letter,
+  type PlayMode,
+  ALL_DICE_FACES,
+  boardShape,
+  restoreState,
+} from './gameState';
+import { type Difficulty, DIFFICULTIES } from './difficulty';
+import { type BoardShape, MAX_EXPANDED_SIZE } from './board';
+import type { GameHistory } from './history';
+import { type Dictionary, getActiveDictionary } from './dictionary';
+import { getDailyDate } from './daily';
+
+const SAVED_GAME_KEY = 'qless-saved-game';
+
+// Bump when the stored shape changes; saves from other versions are dropped
+const SAVED_GAME_VERSION = 3;
+
+// Timed games are never saved (see Game.tsx)
+const PLAY_MODES: PlayMode[] = ['free', 'classic', 'daily', 'shared', 'zen'];
+
+export interface SavedGame {
+  mode: PlayMode;
+  dailyDate: string | null;
+  timer: number;
+  shuffles: number; // Times the tray was shaken - the game's hint
+  difficulty: Difficulty | null; // Band the roll was dealt for, if any
+  history: GameHistory;
+  savedAt: number; // Timestamp
+}
+
+interface StoredState extends BoardShape {
+  seed: number;
+  letters: Letter[];
+  placementOrder: string[];
+}
+
+interface StoredGame extends Omit<SavedGame, 'history'> {
+  version: number;
+  past: StoredState[];
+  present: StoredState;
+  future: StoredState[];
+}
+
+function toStored(state: GameState): StoredState {
+  return {
+    seed: state.seed,
+    letters: state.letters,
+    placementOrder: state.placementOrder,
+    ...boardShape(state),
+  };
+}
+
+function isGridSize(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) > 0 && (value as number) <= MAX_EXPANDED_SIZE;
+}
+
+function isCell(value: unknown, rows: number, cols: number): value is { row: number; col: number } {
+  if (typeof value !== 'object' || value === null) return false;
+  const { row, col } = value as { row: unknown; col: unknown };
+  return Number.isInteger(row) && Number.isInteger(col) &&
+    (row as number) >= 0 && (row as number) < rows &&
+    (col as number) >= 0 && (col as number) < cols;
+}
+
+function isLetter(value: unknown, rows: number, cols: number): value is Letter {
+  if (typeof value !== 'object' || value === null) return false;
+  const { id, char, die, position } = value as Record<string, unknown>;
+  return typeof id === 'string' &&
+    typeof char === 'string' && /^[A-Z]$/.test(char) &&
+    (die === null || (Number.isInteger(die) && (die as number) >= 0 && (die as number) < ALL_DICE_FACES.length)) &&
+    (position === null || isCell(position, rows, cols));
+}
+
+// Letters must have unique ids and cells on the grid, and the placement order must list
+// exactly the placed ones
+function isStoredState(value: unknown): value is StoredState {
+  if (typeof value !== 'object' || value === null) return false;
+  const { seed, letters, placementOrder, rows, cols, autoExpand } = value as Record<string, unknown>;
+  if (!Number.isInteger(seed) || !Array.isArray(letters) || !Array.isArray(placementOrder)) return false;
+  if (!isGridSize(rows) || !isGridSize(cols) || typeof autoExpand !== 'boolean') return false;
+  if (letters.length === 0 || !letters.every(l => isLetter(l, rows, cols))) return false;
+
+  const ids = new Set(letters.map(l => l.id));
+  if (ids.size !== letters.length) return false;
+
+  const placed = letters.filter(l => l.position);
+  const cells = new Set(placed.map(l => `${l.position!.row},${l.position!.col}`));
+  if (cells.size !== placed.length) return false;
+
+  return placementOrder.length === placed.length &&
+    new Set(placementOrder).size === placementOrder.length &&
+    placementOrder.every(id => placed.some(l => l.id === id));
+}
+
+function isStoredGame(value: unknown): value is StoredGame {
+  if (typeof value !== 'object' || value === null) return false;
+  const game = value as Record<string, unknown>;
+  return game.version === SAVED_GAME_VERSION &&
+    PLAY_MODES.includes(game.mode as PlayMode) &&
+    (game.dailyDate === null || typeof game.dailyDate === 'string') &&
+    Number.isInteger(game.timer) && (game.timer as number) >= 0 &&
+    Number.isInteger(game.shuffles) && (game.shuffles as number) >= 0 &&
+    (game.difficulty === null || DIFFICULTIES.includes(game.difficulty as Difficulty)) &&
+    typeof game.savedAt === 'number' &&
+    Array.isArray(game.past) && game.past.every(isStoredState) &&
+    isStoredState(game.present) &&
+    Array.isArray(game.future) && game.future.every(isStoredState);
+}
+
+function fromStored(stored: StoredState, timer: number, dictionary: Dictionary): GameState {
+  const { rows, cols, autoExpand } = stored;
+  const state = restoreState(stored.letters, stored.seed, stored.placementOrder, dictionary, { rows, cols, autoExpand });
+  return { ...state, timer };
+}
+
+/**
+ * Save the game in progress, replacing any earlier save
+ */
+export function saveGame(game: Omit<SavedGame, 'savedAt'>): void {
+  if (typeof window === 'undefined') return;
+
+  const { history, ...rest } = game;
+  const stored: StoredGame = {
+    ...rest,
+    version: SAVED_GAME_VERSION,
+    savedAt: Date.now(),
+    past: history.past.map(toStored),
+    present: toStored(history.present),
+    future: history.future.map(toStored),
+  };
+  try {
+    localStorage.setItem(SAVED_GAME_KEY, JSON.stringify(stored));
+  } catch {
+    // Ignore errors
+  }
+}
+
+/**
+ * Load the saved game, if there is one worth resuming
+ * Saves that are from another version, fail validation, are already won, or are a past
+ * day's daily are dropped
+ */
+export function loadSavedGame(dictionary: Dictionary = getActiveDictionary()): SavedGame | null {
+  if (typeof window === 'undefined') return null;
+
+  let stored: unknown;
+  try {
+    const saved = localStorage.getItem(SAVED_GAME_KEY);
+    if (!saved) return null;
+    stored = JSON.parse(saved);
+  } catch {
+    // Ignore errors
+  }
+
+  if (!isStoredGame(stored) || (stored.mode === 'daily' && stored.dailyDate !== getDailyDate())) {
+    clearSavedGame();
+    return null;
+  }
+
+  const { mode, dailyDate, timer, shuffles, difficulty, savedAt } = stored;
+  const history: GameHistory = {
+    past: stored.past.map(state => fromStored(state, timer, dictionary)),
+    present: fromStored(stored.present, timer, dictionary),
+    future: stored.future.map(state => fromStored(state, timer, dictionary)),
+  };
+  if (history.present.isWon) {
+    clearSavedGame();
+    return null;
+  }
+  return { mode, dailyDate, timer, shuffles, difficulty, history, savedAt };
+}
+
+export function clearSavedGame(): void {
+  if (typeof window === 'undefined') return;
+
+  try {
+    localStorage.removeItem(SAVED_GAME_KEY);
+  } catch {
+    // Ignore errors
+  }
+}
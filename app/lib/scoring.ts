@@ -0,0 +1,71 @@
+// Q-Less Scoring
+// A won board is scored from its final words. Points come from:
+// - the letters in each word, worth their LETTER_RARITY (a crossing letter counts in both words)
+// - longer words, which earn more than their letters on their own
+// - using fewer words than the hand allows
+// - finishing quickly
+// Shaking the tray is the game's hint, so each shake costs points
+
+import { type WordResult, LETTER_RARITY } from './gameState';
+
+// Words at or below this length earn no length bonus
+const BASE_WORD_LENGTH = 3;
+const LENGTH_BONUS_PER_STEP = 5;
+
+const FEWER_WORDS_BONUS = 10; // Per word under half the hand size
+const SHUFFLE_PENALTY = 10;
+
+// The time bonus runs out after this many seconds
+const TIME_BONUS_SECONDS = 300;
+const SECONDS_PER_TIME_POINT = 2;
+
+export interface ScoreOptions {
+  handSize: number; // Letters dealt
+  time: number; // Seconds on the clock, penalties included
+  shuffles: number; // Times the tray was shaken
+}
+
+export interface ScoreBreakdown {
+  letterPoints: number;
+  lengthBonus: number;
+  fewerWordsBonus: number;
+  shufflePenalty: number; // Zero or negative
+  timeBonus: number;
+  total: number;
+}
+
+/**
+ * Bonus for a single word's length, growing faster the longer it gets
+ * (4 letters: 5, 5: 15, 6: 30, 7: 50, ...)
+ */
+function lengthBonus(length: number): number {
+  const extra = length - BASE_WORD_LENGTH;
+  return extra > 0 ? (LENGTH_BONUS_PER_STEP * extra * (extra + 1)) / 2 : 0;
+}
+
+/**
+ * Score a won board
+ * @param words - The board's final words; invalid ones score nothing
+ * @returns Each part of the score and the total, which never drops below zero
+ */
+export function scoreGame(words: WordResult[], { handSize, time, shuffles }: ScoreOptions): ScoreBreakdown {
+  const validWords = words.filter(w => w.isValid);
+
+  const letterPoints = validWords.reduce(
+    (sum, w) => sum + [...w.word.toLowerCase()].reduce((s, c) => s + (LETTER_RARITY[c] || 1), 0),
+    0
+  );
+  const lengthPoints = validWords.reduce((sum, w) => sum + lengthBonus(w.word.length), 0);
+  const fewerWordsBonus = FEWER_WORDS_BONUS * Math.max(0, Math.ceil(handSize / 2) - validWords.length);
+  const shufflePenalty = 0 - SHUFFLE_PENALTY * shuffles; // Not -0 when there were none
+  const timeBonus = Math.floor(Math.max(0, TIME_BONUS_SECONDS - time) / SECONDS_PER_TIME_POINT);
+
+  return {
+    letterPoints,
+    lengthBonus: lengthPoints,
+    fewerWordsBonus,
+    shufflePenalty,
+    timeBonus,
+    total: Math.max(0, letterPoints + lengthPoints + fewerWordsBonus + shufflePenalty + timeBonus),
+  };
+}
@@ -0,0 +1,67 @@
+// Q-Less Game Settings
+// House rules the player can change; kept in localStorage (the word list lives in lexiconStore.ts)
+
+import { DEFAULT_HAND_SIZE, DEFAULT_REROLL_PENALTY_SECONDS } from './gameState';
+import { type BoardConfig, DEFAULT_BOARD } from './board';
+import { DEFAULT_TIME_LIMIT_SECONDS } from './challenge';
+
+const SETTINGS_KEY = 'qless-settings';
+
+// Choices offered for the re-roll penalty, in seconds
+export const REROLL_PENALTY_OPTIONS = [0, 5, 10, 20, 30];
+
+// Choices offered for countdown and Blitz games, in seconds
+export const TIME_LIMIT_OPTIONS = [60, 120, 180, 300, 600];
+
+export interface GameSettings {
+  rerollPenaltySeconds: number; // Added to the timer each time a die is re-rolled
+  gridSize: number; // One of GRID_SIZE_OPTIONS (board.ts)
+  autoExpandGrid: boolean;
+  handSize: number; // Letters dealt in free play, classic and timed games; one of HAND_SIZES
+  timeLimitSeconds: number; // Clock for countdown games and Blitz sessions
+}
+
+const DEFAULT_SETTINGS: GameSettings = {
+  rerollPenaltySeconds: DEFAULT_REROLL_PENALTY_SECONDS,
+  gridSize: DEFAULT_BOARD.size,
+  autoExpandGrid: DEFAULT_BOARD.autoExpand,
+  handSize: DEFAULT_HAND_SIZE,
+  timeLimitSeconds: DEFAULT_TIME_LIMIT_SECONDS,
+};
+
+export function loadSettings(): GameSettings {
+  if (typeof window === 'undefined') return DEFAULT_SETTINGS;
+
+  try {
+    const saved = localStorage.getItem(SETTINGS_KEY);
+    if (saved) {
+      return { ...DEFAULT_SETTINGS, ...JSON.parse(saved) };
+    }
+  } catch {
+    // Ignore errors
+  }
+  return DEFAULT_SETTINGS;
+}
+
+/**
+ * Change some settings and save them
+ * @returns The full settings after the change
+ */
+export function updateSettings(changes: Partial<GameSettings>): GameSettings {
+  const settings = { ...loadSettings(), ...changes };
+  if (typeof window === 'undefined') return settings;
+
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  } catch {
+    // Ignore errors
+  }
+  return settings;
+}
+
+/**
+ * The board new games are dealt on
+ */
+export function boardFromSettings(settings: GameSettings): BoardConfig {
+  return { size: settings.gridSize, autoExpand: settings.autoExpandGrid };
+}
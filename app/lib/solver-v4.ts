@@ -3,15 +3,31 @@
 // Key insight: Instead of backtracking through grid placements, 
 // first find word COMBINATIONS that use all letters, then place them.
 //
-// For 12 letters with words crossing:
-// - 2 words sharing 1 letter: len(A) + len(B) = 13
-// - 3 words sharing 2 letters: len(A) + len(B) + len(C) = 14
+// For N letters with words crossing (N is the hand size - 12 in the standard game):
+// - 2 words sharing 1 letter: len(A) + len(B) = N + 1
+// - 3 words sharing 2 letters: len(A) + len(B) + len(C) = N + 2
 // etc.
 
-import { isValidWord, getWordsFromLetters } from './words';
 import type { Letter } from './gameState';
+import { type Dictionary, getActiveDictionary } from './dictionary';
+import { type Rng, randomInt } from './random';
+import { DEFAULT_GRID_SIZE } from './board';
 
-const GRID_SIZE = 8;
+const PROGRESS_INTERVAL_MS = 200;
+
+export interface SolveProgress {
+  attempts: number;
+  combosChecked: number;
+  elapsedMs: number;
+}
+
+export interface SolveOptions {
+  timeoutMs?: number;
+  rng?: Rng; // Pass a seeded rng to make the search order (and so the result) reproducible
+  dictionary?: Dictionary; // Defaults to the active dictionary, same as player validation
+  gridSize?: number; // Board rows and columns; solutions fit inside (see board.ts)
+  onProgress?: (progress: SolveProgress) => void; // Called at most every PROGRESS_INTERVAL_MS
+}
 
 export interface SolveResult {
   placements: { letterId: string; row: number; col: number }[];
@@ -26,8 +42,8 @@ export interface SolveResult {
 
 type Grid = (string | null)[][];
 
-function createEmptyGrid(): Grid {
-  return Array(GRID_SIZE).fill(null).map(() => Array(GRID_SIZE).fill(null));
+function createEmptyGrid(size: number): Grid {
+  return Array(size).fill(null).map(() => Array(size).fill(null));
 }
 
 function cloneGrid(grid: Grid): Grid {
@@ -93,7 +109,7 @@ function getWordAt(grid: Grid, row: number, col: number, dir: 'h' | 'v'): string
   }
   
   let word = '';
-  while (r < GRID_SIZE && c < GRID_SIZE && grid[r][c]) {
+  while (r < grid.length && c < grid.length && grid[r][c]) {
     word += grid[r][c];
     if (dir === 'h') c++;
     else r++;
@@ -107,15 +123,17 @@ function checkPerpendiculars(
   word: string,
   row: number,
   col: number,
-  dir: 'h' | 'v'
+  dir: 'h' | 'v',
+  dictionary: Dictionary
 ): boolean {
   const newGrid = cloneGrid(grid);
+  const size = grid.length;
   
   // Place the word
   for (let i = 0; i < word.length; i++) {
     const r = dir === 'v' ? row + i : row;
     const c = dir === 'h' ? col + i : col;
-    if (r >= GRID_SIZE || c >= GRID_SIZE) return false;
+    if (r >= size || c >= size) return false;
     
     const existing = grid[r][c];
     if (existing && existing !== word[i]) return false;
@@ -125,10 +143,10 @@ function checkPerpendiculars(
   // Check word doesn't extend existing word
   if (dir === 'h') {
     if (col > 0 && grid[row][col - 1]) return false;
-    if (col + word.length < GRID_SIZE && grid[row][col + word.length]) return false;
+    if (col + word.length < size && grid[row][col + word.length]) return false;
   } else {
     if (row > 0 && grid[row - 1][col]) return false;
-    if (row + word.length < GRID_SIZE && grid[row + word.length][col]) return false;
+    if (row + word.length < size && grid[row + word.length][col]) return false;
   }
   
   // Check all perpendicular words
@@ -143,7 +161,7 @@ function checkPerpendiculars(
     const perpWord = getWordAt(newGrid, r, c, perpDir);
     
     if (perpWord.length === 2) return false;
-    if (perpWord.length >= 3 && !isValidWord(perpWord)) return false;
+    if (perpWord.length >= 3 && !dictionary.has(perpWord)) return false;
   }
   
   return true;
@@ -164,7 +182,9 @@ function placeWord(grid: Grid, word: string, row: number, col: number, dir: 'h'
 function tryPlaceTwoWords(
   word1: string,  // horizontal
   word2: string,  // vertical
-  crossing: { i1: number; i2: number }
+  crossing: { i1: number; i2: number },
+  size: number,
+  dictionary: Dictionary
 ): Grid | null {
   // Place word1 horizontally and word2 vertically crossing at the intersection
   // word1 is placed first, then word2 crosses it
@@ -174,7 +194,7 @@ function tryPlaceTwoWords(
   
   // Try different positions - center-ish placement
   for (let baseRow = 1; baseRow <= 4; baseRow++) {
-    for (let baseCol = 1; baseCol <= Math.max(1, GRID_SIZE - word1.length - 1); baseCol++) {
+    for (let baseCol = 1; baseCol <= Math.max(1, size - word1.length - 1); baseCol++) {
       // word1 horizontal at (baseRow, baseCol)
       // crossing happens at word1[i1], so position is (baseRow, baseCol + i1)
       // word2 vertical with word2[i2] at that position
@@ -184,17 +204,17 @@ function tryPlaceTwoWords(
       const word2StartRow = baseRow - crossing.i2;
       
       // Bounds check
-      if (word2StartRow < 0 || word2StartRow + word2.length > GRID_SIZE) continue;
-      if (crossCol >= GRID_SIZE || baseCol + word1.length > GRID_SIZE) continue;
+      if (word2StartRow < 0 || word2StartRow + word2.length > size) continue;
+      if (crossCol >= size || baseCol + word1.length > size) continue;
       
-      let grid = createEmptyGrid();
+      let grid = createEmptyGrid(size);
       
       // Place word1 horizontally
-      if (!checkPerpendiculars(grid, word1, baseRow, baseCol, 'h')) continue;
+      if (!checkPerpendiculars(grid, word1, baseRow, baseCol, 'h', dictionary)) continue;
       grid = placeWord(grid, word1, baseRow, baseCol, 'h');
       
       // Place word2 vertically
-      if (!checkPerpendiculars(grid, word2, word2StartRow, crossCol, 'v')) continue;
+      if (!checkPerpendiculars(grid, word2, word2StartRow, crossCol, 'v', dictionary)) continue;
       grid = placeWord(grid, word2, word2StartRow, crossCol, 'v');
       
       return grid;
@@ -210,26 +230,28 @@ function tryPlaceThreeWords(
   word2: string,  // vertical, crosses word1
   word3: string,  // can be h or v, crosses word1 or word2
   crossing1: { i1: number; i2: number },  // word1 x word2
-  crossing2: { wordA: 'w1' | 'w2'; wordB: 'w3'; iA: number; iB: number }  // where word3 connects
+  crossing2: { wordA: 'w1' | 'w2'; wordB: 'w3'; iA: number; iB: number },  // where word3 connects
+  size: number,
+  dictionary: Dictionary
 ): Grid | null {
   // Try different base positions
   for (let baseRow = 1; baseRow <= 3; baseRow++) {
-    for (let baseCol = 1; baseCol <= Math.max(1, GRID_SIZE - word1.length - 1); baseCol++) {
+    for (let baseCol = 1; baseCol <= Math.max(1, size - word1.length - 1); baseCol++) {
       const crossCol = baseCol + crossing1.i1;
       const word2StartRow = baseRow - crossing1.i2;
       
       // Bounds check for first two words
-      if (word2StartRow < 0 || word2StartRow + word2.length > GRID_SIZE) continue;
-      if (crossCol >= GRID_SIZE || baseCol + word1.length > GRID_SIZE) continue;
+      if (word2StartRow < 0 || word2StartRow + word2.length > size) continue;
+      if (crossCol >= size || baseCol + word1.length > size) continue;
       
-      let grid = createEmptyGrid();
+      let grid = createEmptyGrid(size);
       
       // Place word1 horizontally
-      if (!checkPerpendiculars(grid, word1, baseRow, baseCol, 'h')) continue;
+      if (!checkPerpendiculars(grid, word1, baseRow, baseCol, 'h', dictionary)) continue;
       grid = placeWord(grid, word1, baseRow, baseCol, 'h');
       
       // Place word2 vertically
-      if (!checkPerpendiculars(grid, word2, word2StartRow, crossCol, 'v')) continue;
+      if (!checkPerpendiculars(grid, word2, word2StartRow, crossCol, 'v', dictionary)) continue;
       grid = placeWord(grid, word2, word2StartRow, crossCol, 'v');
       
       // Now place word3 - it crosses either word1 or word2
@@ -238,20 +260,20 @@ function tryPlaceThreeWords(
         const w3CrossCol = baseCol + crossing2.iA;
         const w3StartRow = baseRow - crossing2.iB;
         
-        if (w3StartRow < 0 || w3StartRow + word3.length > GRID_SIZE) continue;
-        if (w3CrossCol < 0 || w3CrossCol >= GRID_SIZE) continue;
+        if (w3StartRow < 0 || w3StartRow + word3.length > size) continue;
+        if (w3CrossCol < 0 || w3CrossCol >= size) continue;
         
-        if (!checkPerpendiculars(grid, word3, w3StartRow, w3CrossCol, 'v')) continue;
+        if (!checkPerpendiculars(grid, word3, w3StartRow, w3CrossCol, 'v', dictionary)) continue;
         grid = placeWord(grid, word3, w3StartRow, w3CrossCol, 'v');
       } else {
         // word3 crosses word2, so word3 is horizontal
         const w3CrossRow = word2StartRow + crossing2.iA;
         const w3StartCol = crossCol - crossing2.iB;
         
-        if (w3StartCol < 0 || w3StartCol + word3.length > GRID_SIZE) continue;
-        if (w3CrossRow < 0 || w3CrossRow >= GRID_SIZE) continue;
+        if (w3StartCol < 0 || w3StartCol + word3.length > size) continue;
+        if (w3CrossRow < 0 || w3CrossRow >= size) continue;
         
-        if (!checkPerpendiculars(grid, word3, w3CrossRow, w3StartCol, 'h')) continue;
+        if (!checkPerpendiculars(grid, word3, w3CrossRow, w3StartCol, 'h', dictionary)) continue;
         grid = placeWord(grid, word3, w3CrossRow, w3StartCol, 'h');
       }
       
@@ -263,10 +285,10 @@ function tryPlaceThreeWords(
 }
 
 // Shuffle array
-function shuffle<T>(arr: T[]): T[] {
+function shuffle<T>(arr: T[], rng: Rng): T[] {
   const a = [...arr];
   for (let i = a.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
+    const j = randomInt(rng, i + 1);
     [a[i], a[j]] = [a[j], a[i]];
   }
   return a;
@@ -289,7 +311,15 @@ function countsEqual(a: Map<string, number>, b: Map<string, number>): boolean {
 }
 
 // Main solver
-function solve(letterCounts: Map<string, number>, targetCount: number, timeoutMs: number): {
+function solve(
+  letterCounts: Map<string, number>,
+  targetCount: number,
+  timeoutMs: number,
+  rng: Rng,
+  size: number,
+  dictionary: Dictionary,
+  report: (attempts: number, combosChecked: number) => void
+): {
   grid: Grid | null;
   attempts: number;
   combosChecked: number;
@@ -299,15 +329,15 @@ function solve(letterCounts: Map<string, number>, targetCount: number, timeoutMs
   let combosChecked = 0;
   
   // Get all formable words, sorted by length (longer first)
-  const allWords = getWordsFromLetters(letterCounts)
-    .filter(w => w.length >= 3 && w.length <= 8)
+  const allWords = dictionary.wordsFromLetters(letterCounts)
+    .filter(w => w.length >= 3 && w.length <= size)
     .sort((a, b) => b.length - a.length);
   
   if (allWords.length === 0) {
     return { grid: null, attempts: 0, combosChecked: 0 };
   }
   
-  console.log(`[SolverV4] ${allWords.length} formable words (3-8 letters)`);
+  console.log(`[SolverV4] ${allWords.length} formable words (3-${size} letters)`);
   
   // Strategy 1: Try 2-word combinations
   // For 2 words crossing at 1 letter to use N letters: len(A) + len(B) = N + 1
@@ -317,13 +347,13 @@ function solve(letterCounts: Map<string, number>, targetCount: number, timeoutMs
   
   // Prioritize longer words
   const longWords = allWords.filter(w => w.length >= 5);
-  const wordsToTry = shuffle([...longWords, ...allWords.slice(0, 100)]);
+  const wordsToTry = shuffle([...longWords, ...allWords.slice(0, 100)], rng);
   
   for (const word1 of wordsToTry) {
     if (Date.now() > deadline) break;
     
     const neededLen = targetSum - word1.length;
-    if (neededLen < 3 || neededLen > 8) continue;
+    if (neededLen < 3 || neededLen > size) continue;
     
     // After using word1, what letters remain?
     const afterWord1 = subtractWord(letterCounts, word1);
@@ -335,6 +365,7 @@ function solve(letterCounts: Map<string, number>, targetCount: number, timeoutMs
       if (word2.length !== neededLen) continue;
       if (Date.now() > deadline) break;
       combosChecked++;
+      report(attempts, combosChecked);
       
       // Find possible crossings
       const crossings = findCrossings(word1, word2);
@@ -355,14 +386,14 @@ function solve(letterCounts: Map<string, number>, targetCount: number, timeoutMs
         
         // Try to place them!
         attempts++;
-        const grid = tryPlaceTwoWords(word1, word2, crossing);
+        const grid = tryPlaceTwoWords(word1, word2, crossing, size, dictionary);
         if (grid) {
           return { grid, attempts, combosChecked };
         }
         
         // Try reversed (word2 horizontal, word1 vertical)
         attempts++;
-        const gridRev = tryPlaceTwoWords(word2, word1, { i1: crossing.i2, i2: crossing.i1 });
+        const gridRev = tryPlaceTwoWords(word2, word1, { i1: crossing.i2, i2: crossing.i1 }, size, dictionary);
         if (gridRev) {
           return { grid: gridRev, attempts, combosChecked };
         }
@@ -376,7 +407,7 @@ function solve(letterCounts: Map<string, number>, targetCount: number, timeoutMs
   
   const targetSum3 = targetCount + 2;  // e.g., 14 for 12 letters
   const mediumWords = allWords.filter(w => w.length >= 4 && w.length <= 6);
-  const words3Try = shuffle([...mediumWords, ...allWords.slice(0, 80)]);
+  const words3Try = shuffle([...mediumWords, ...allWords.slice(0, 80)], rng);
   
   for (const word1 of words3Try.slice(0, 50)) {
     if (Date.now() > deadline) break;
@@ -396,13 +427,14 @@ function solve(letterCounts: Map<string, number>, targetCount: number, timeoutMs
         const afterWord2 = subtractWord(withShared1, word2);
         const remaining = countLetters(afterWord2);
         
-        if (remaining < 3 || remaining > 7) continue;
+        if (remaining < 3 || remaining > size - 1) continue;
         
         // Find word3 that uses remaining letters and connects
         for (const word3 of allWords) {
           if (word3.length !== remaining + 1) continue;  // +1 for one more crossing
           if (Date.now() > deadline) break;
           combosChecked++;
+          report(attempts, combosChecked);
           
           // word3 can cross word1 or word2
           const crossings13 = findCrossings(word1, word3);
@@ -418,7 +450,7 @@ function solve(letterCounts: Map<string, number>, targetCount: number, timeoutMs
             
             attempts++;
             const grid = tryPlaceThreeWords(word1, word2, word3, cross12, 
-              { wordA: 'w1', wordB: 'w3', iA: cross13.i1, iB: cross13.i2 });
+              { wordA: 'w1', wordB: 'w3', iA: cross13.i1, iB: cross13.i2 }, size, dictionary);
             if (grid) {
               return { grid, attempts, combosChecked };
             }
@@ -434,7 +466,7 @@ function solve(letterCounts: Map<string, number>, targetCount: number, timeoutMs
             
             attempts++;
             const grid = tryPlaceThreeWords(word1, word2, word3, cross12,
-              { wordA: 'w2', wordB: 'w3', iA: cross23.i1, iB: cross23.i2 });
+              { wordA: 'w2', wordB: 'w3', iA: cross23.i1, iB: cross23.i2 }, size, dictionary);
             if (grid) {
               return { grid, attempts, combosChecked };
             }
@@ -455,8 +487,8 @@ function gridToPlacements(
   const placements: { letterId: string; row: number; col: number }[] = [];
   const usedIds = new Set<string>();
   
-  for (let row = 0; row < GRID_SIZE; row++) {
-    for (let col = 0; col < GRID_SIZE; col++) {
+  for (let row = 0; row < grid.length; row++) {
+    for (let col = 0; col < grid[row].length; col++) {
       const char = grid[row][col];
       if (char) {
         const letter = letters.find(
@@ -484,8 +516,31 @@ function countCells(grid: Grid): number {
 }
 
 // Main entry point
-export function solvePuzzleV4(letters: Letter[], timeoutMs: number = 25000): SolveResult {
+export function solvePuzzleV4(letters: Letter[], options: SolveOptions = {}): SolveResult {
+  const {
+    timeoutMs = 25000,
+    rng = Math.random,
+    dictionary = getActiveDictionary(),
+    gridSize = DEFAULT_GRID_SIZE,
+    onProgress,
+  } = options;
   const startTime = Date.now();
+
+  // Totals from finished phases, so progress keeps counting up across them
+  let doneAttempts = 0;
+  let doneCombos = 0;
+  let lastReport = 0;
+  const report = (attempts: number, combosChecked: number) => {
+    if (!onProgress) return;
+    const now = Date.now();
+    if (now - lastReport < PROGRESS_INTERVAL_MS) return;
+    lastReport = now;
+    onProgress({
+      attempts: doneAttempts + attempts,
+      combosChecked: doneCombos + combosChecked,
+      elapsedMs: now - startTime,
+    });
+  };
   const letterChars = letters.map(l => l.char.toLowerCase());
   
   const letterCounts = new Map<string, number>();
@@ -493,31 +548,34 @@ export function solvePuzzleV4(letters: Letter[], timeoutMs: number = 25000): Sol
     letterCounts.set(c, (letterCounts.get(c) || 0) + 1);
   }
   
+  const total = letterChars.length;
   console.log(`[SolverV4] Letters: ${letterChars.join('').toUpperCase()}`);
   
-  // Phase 1: Try all 12 letters
-  console.log('[SolverV4] Phase 1: 12-letter solution...');
-  const result12 = solve(letterCounts, 12, Math.floor(timeoutMs * 0.7));
+  // Phase 1: Try every letter in the hand
+  console.log(`[SolverV4] Phase 1: ${total}-letter solution...`);
+  const resultFull = solve(letterCounts, total, Math.floor(timeoutMs * 0.7), rng, gridSize, dictionary, report);
   
-  if (result12.grid && countCells(result12.grid) === 12) {
-    const placements = gridToPlacements(result12.grid, letters);
-    console.log(`[SolverV4] ✓ 12-letter solution! (${result12.attempts} attempts, ${result12.combosChecked} combos)`);
+  if (resultFull.grid && countCells(resultFull.grid) === total) {
+    const placements = gridToPlacements(resultFull.grid, letters);
+    console.log(`[SolverV4] ✓ ${total}-letter solution! (${resultFull.attempts} attempts, ${resultFull.combosChecked} combos)`);
     return {
       placements,
       success: true,
-      stats: { attempts: result12.attempts, timeMs: Date.now() - startTime, combosChecked: result12.combosChecked }
+      stats: { attempts: resultFull.attempts, timeMs: Date.now() - startTime, combosChecked: resultFull.combosChecked }
     };
   }
   
-  // Phase 2: Try 11 letters
-  console.log('[SolverV4] Phase 2: 11-letter solutions...');
+  // Phase 2: Try leaving one letter out
+  console.log(`[SolverV4] Phase 2: ${total - 1}-letter solutions...`);
   
   const uniqueLetters = [...new Set(letterChars)];
   const remainingTime = Math.max(2000, timeoutMs - (Date.now() - startTime));
   const perLetterTimeout = Math.floor(remainingTime / Math.min(uniqueLetters.length, 6));
   
-  let totalAttempts = result12.attempts;
-  let totalCombos = result12.combosChecked;
+  let totalAttempts = resultFull.attempts;
+  let totalCombos = resultFull.combosChecked;
+  doneAttempts = totalAttempts;
+  doneCombos = totalCombos;
   
   // Sort by difficulty (try removing harder letters first)
   const difficulties: Record<string, number> = {
@@ -536,15 +594,17 @@ export function solvePuzzleV4(letters: Letter[], timeoutMs: number = 25000): Sol
     
     console.log(`[SolverV4] Trying without '${toRemove.toUpperCase()}'...`);
     
-    const result11 = solve(reduced, 11, perLetterTimeout);
-    totalAttempts += result11.attempts;
-    totalCombos += result11.combosChecked;
+    const resultReduced = solve(reduced, total - 1, perLetterTimeout, rng, gridSize, dictionary, report);
+    totalAttempts += resultReduced.attempts;
+    totalCombos += resultReduced.combosChecked;
+    doneAttempts = totalAttempts;
+    doneCombos = totalCombos;
     
-    if (result11.grid && countCells(result11.grid) === 11) {
+    if (resultReduced.grid && countCells(resultReduced.grid) === total - 1) {
       const remainingLetters = letters.filter(l => l.char.toLowerCase() !== toRemove);
-      const placements = gridToPlacements(result11.grid, remainingLetters);
+      const placements = gridToPlacements(resultReduced.grid, remainingLetters);
       
-      console.log(`[SolverV4] ✓ 11-letter solution (removed ${toRemove.toUpperCase()})`);
+      console.log(`[SolverV4] ✓ ${total - 1}-letter solution (removed ${toRemove.toUpperCase()})`);
       return {
         placements,
         success: true,
@@ -0,0 +1,130 @@
+// Q-Less Solver Worker
+// Runs the solvers off the main thread so the board keeps animating while they search.
+// Spawned by solverClient.ts - see there for the message protocol from the UI side.
+
+import type { Letter } from './gameState';
+import { type Dictionary, createDictionaryFromIndex } from './dictionary';
+import { type SolveProgress, type SolveResult, solvePuzzleV4 } from './solver-v4';
+import {
+  type EnumerateResult,
+  type ExactSolveProgress,
+  type ExactSolveResult,
+  type Placement,
+  enumerateSolutions,
+  solveExact,
+} from './exactSolver';
+import { type DealResult, dealDaily, dealSolvable } from './dealer';
+import { type Difficulty, type DifficultyRating, rateRoll } from './difficulty';
+import { createWordIndex } from './wordIndex';
+
+// The worker has no access to the page's dictionary, so it's sent as packed DAWG edges
+export interface PackedDictionary {
+  id: string;
+  name: string;
+  description: string;
+  edges: Uint32Array;
+  wordCount: number;
+}
+
+// 'solve' is the fast heuristic search; 'solveExact' searches every layout (exactSolver.ts),
+// 'enumerate' lists every solution, 'deal' rolls until the solvers find one (dealer.ts),
+// 'daily' deals the daily puzzle for a date and 'rate' scores a roll's difficulty
+// (difficulty.ts). gridSize is the board the solutions have to fit on
+export type SolverRequest =
+  | { type: 'solve'; letters: Letter[]; timeoutMs: number; gridSize: number; dictionary: PackedDictionary }
+  | { type: 'solveExact'; letters: Letter[]; timeoutMs: number; gridSize: number; dictionary: PackedDictionary }
+  | {
+      type: 'enumerate';
+      letters: Letter[];
+      timeoutMs: number;
+      gridSize: number;
+      dictionary: PackedDictionary;
+      dedupeTransposes: boolean;
+      maxSolutions: number;
+    }
+  | {
+      type: 'deal';
+      seed: number;
+      budgetMs?: number;
+      difficulty?: Difficulty;
+      handSize: number;
+      gridSize: number;
+      dictionary: PackedDictionary;
+    }
+  | { type: 'daily'; date: string; dictionary: PackedDictionary }
+  | { type: 'rate'; letters: Letter[]; timeoutMs?: number; gridSize: number; dictionary: PackedDictionary };
+
+export type SolverResponse =
+  | { type: 'progress'; progress: SolveProgress }
+  | { type: 'result'; result: SolveResult }
+  | { type: 'exactProgress'; progress: ExactSolveProgress }
+  | { type: 'exactResult'; result: ExactSolveResult }
+  // Solutions are streamed one by one, so the summary at the end leaves them out
+  | { type: 'solution'; solution: Placement[] }
+  | { type: 'enumerateResult'; result: Omit<EnumerateResult, 'solutions'> }
+  | { type: 'dealResult'; result: DealResult }
+  | { type: 'rateResult'; result: DifficultyRating }
+  | { type: 'error'; message: string };
+
+// Cancelling is done by terminating the worker: the search is one synchronous loop,
+// so a 'cancel' message would sit in the queue until the search had already finished
+
+function unpackDictionary({ edges, wordCount, ...meta }: PackedDictionary): Dictionary {
+  return createDictionaryFromIndex(meta, createWordIndex(edges, wordCount));
+}
+
+function respond(message: SolverResponse) {
+  self.postMessage(message);
+}
+
+self.addEventListener('message', (event: MessageEvent<SolverRequest>) => {
+  const request = event.data;
+
+  try {
+    const dictionary = unpackDictionary(request.dictionary);
+    if (request.type === 'solve') {
+      const result = solvePuzzleV4(request.letters, {
+        timeoutMs: request.timeoutMs,
+        gridSize: request.gridSize,
+        dictionary,
+        onProgress: progress => respond({ type: 'progress', progress }),
+      });
+      respond({ type: 'result', result });
+    } else if (request.type === 'solveExact') {
+      const result = solveExact(request.letters, {
+        timeoutMs: request.timeoutMs,
+        gridSize: request.gridSize,
+        dictionary,
+        onProgress: progress => respond({ type: 'exactProgress', progress }),
+      });
+      respond({ type: 'exactResult', result });
+    } else if (request.type === 'deal') {
+      const result = dealSolvable(request.seed, {
+        budgetMs: request.budgetMs,
+        difficulty: request.difficulty,
+        handSize: request.handSize,
+        gridSize: request.gridSize,
+        dictionary,
+      });
+      respond({ type: 'dealResult', result });
+    } else if (request.type === 'daily') {
+      respond({ type: 'dealResult', result: dealDaily(request.date, dictionary) });
+    } else if (request.type === 'rate') {
+      const { timeoutMs, gridSize } = request;
+      respond({ type: 'rateResult', result: rateRoll(request.letters, { timeoutMs, gridSize, dictionary }) });
+    } else {
+      const { status, stats } = enumerateSolutions(request.letters, {
+        timeoutMs: request.timeoutMs,
+        gridSize: request.gridSize,
+        dictionary,
+        dedupeTransposes: request.dedupeTransposes,
+        maxSolutions: request.maxSolutions,
+        onProgress: progress => respond({ type: 'exactProgress', progress }),
+        onSolution: solution => respond({ type: 'solution', solution }),
+      });
+      respond({ type: 'enumerateResult', result: { status, stats } });
+    }
+  } catch (error) {
+    respond({ type: 'error', message: error instanceof Error ? error.message : 'Solver failed' });
+  }
+});
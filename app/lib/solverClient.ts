@@ -0,0 +1,306 @@
+// Q-Less Solver Client
+// Main-thread side of solver.worker.ts. Each solve gets its own worker, which is
+// terminated when the solve finishes or is cancelled.
+//
+// Protocol:
+//   page   -> worker  { type: 'solve' | 'solveExact' | 'enumerate', letters, timeoutMs, gridSize, dictionary, ... }
+//                     { type: 'deal', seed, budgetMs, difficulty, handSize, gridSize, dictionary }
+//                     { type: 'daily', date, dictionary }
+//                     or { type: 'rate', letters, timeoutMs, gridSize, dictionary }
+//   worker -> page    { type: 'progress' | 'exactProgress', progress }  (repeated)
+//   worker -> page    { type: 'solution', solution }  (enumerate only, one per solution)
+//   worker -> page    { type: 'result' | 'exactResult' | 'enumerateResult' | 'dealResult' | 'rateResult', result }
+//                     or { type: 'error', message }
+//   cancel            worker.terminate()
+
+import type { Letter } from './gameState';
+import { type Dictionary, getActiveDictionary } from './dictionary';
+import { type SolveProgress, type SolveResult, solvePuzzleV4 } from './solver-v4';
+import {
+  type EnumerateResult,
+  type ExactSolveProgress,
+  type ExactSolveResult,
+  type Placement,
+  enumerateSolutions,
+  solveExact,
+} from './exactSolver';
+import { type DealResult, dealDaily, dealSolvable } from './dealer';
+import { type Difficulty, type DifficultyRating, type RateOptions, rateRoll } from './difficulty';
+import { DEFAULT_HAND_SIZE } from './gameState';
+import { randomSeed } from './random';
+import { DEFAULT_GRID_SIZE } from './board';
+import type { SolverRequest, SolverResponse } from './solver.worker';
+
+const DEFAULT_TIMEOUT_MS = 25000;
+const DEFAULT_EXACT_TIMEOUT_MS = 60000;
+const DEFAULT_MAX_SOLUTIONS = 1000;
+
+export interface SolveJob<T> {
+  /** Resolves with the result, or null if the solve was cancelled */
+  result: Promise<T | null>;
+  cancel: () => void;
+}
+
+export interface WorkerSolveOptions<P> {
+  timeoutMs?: number;
+  dictionary?: Dictionary;
+  gridSize?: number; // Board the solutions have to fit on
+  onProgress?: (progress: P) => void;
+}
+
+export interface WorkerEnumerateOptions extends WorkerSolveOptions<ExactSolveProgress> {
+  dedupeTransposes?: boolean;
+  maxSolutions?: number;
+  /** Called as each solution arrives, with how many there are so far */
+  onSolution?: (solution: Placement[], count: number) => void;
+}
+
+// Browsers without module workers solve inline; the page freezes, but it still works
+function runInline<T>(solve: () => T): SolveJob<T> {
+  let cancelled = false;
+  const result = new Promise<T | null>((resolve, reject) => {
+    // Yield first so the caller can paint its "solving" state
+    setTimeout(() => {
+      if (cancelled) {
+        resolve(null);
+        return;
+      }
+      // A throw here would escape the timer and leave the job unsettled, so fail it like a worker error
+      try {
+        resolve(solve());
+      } catch (error) {
+        reject(error instanceof Error ? error : new Error('Solver failed'));
+      }
+    }, 0);
+  });
+  return { result, cancel: () => { cancelled = true; } };
+}
+
+/**
+ * Send one request to a fresh worker
+ * @param handle - Returns the result for a final message, or undefined for progress
+ */
+function runInWorker<T>(
+  request: SolverRequest,
+  handle: (message: SolverResponse) => T | undefined
+): SolveJob<T> {
+  const worker = new Worker(new URL('./solver.worker.ts', import.meta.url), { type: 'module' });
+  let settle: (result: T | null) => void = () => {};
+  let finished = false;
+
+  const result = new Promise<T | null>((resolve, reject) => {
+    const fail = (message: string) => {
+      if (finished) return;
+      finished = true;
+      worker.terminate();
+      reject(new Error(message));
+    };
+    settle = value => {
+      if (finished) return;
+      finished = true;
+      worker.terminate();
+      resolve(value);
+    };
+
+    worker.addEventListener('message', (event: MessageEvent<SolverResponse>) => {
+      const message = event.data;
+      if (finished) return;
+      if (message.type === 'error') {
+        fail(message.message);
+        return;
+      }
+      const value = handle(message);
+      if (value !== undefined) settle(value);
+    });
+    worker.addEventListener('error', event => fail(event.message || 'Solver worker failed'));
+  });
+
+  worker.postMessage(request);
+  return { result, cancel: () => settle(null) };
+}
+
+function packDictionary({ info, index }: Dictionary) {
+  return {
+    id: info.id,
+    name: info.name,
+    description: info.description,
+    edges: index.edges,
+    wordCount: index.wordCount,
+  };
+}
+
+/**
+ * Solve a puzzle in a Web Worker with the fast heuristic solver
+ * @param letters - Letters to solve, usually the full hand with positions cleared
+ * @returns A job whose result can be awaited and which can be cancelled at any time
+ */
+export function solveInWorker(
+  letters: Letter[],
+  options: WorkerSolveOptions<SolveProgress> = {}
+): SolveJob<SolveResult> {
+  const {
+    timeoutMs = DEFAULT_TIMEOUT_MS,
+    dictionary = getActiveDictionary(),
+    gridSize = DEFAULT_GRID_SIZE,
+    onProgress,
+  } = options;
+
+  if (typeof Worker === 'undefined') {
+    return runInline(() => solvePuzzleV4(letters, { timeoutMs, dictionary, gridSize }));
+  }
+
+  return runInWorker(
+    { type: 'solve', letters, timeoutMs, gridSize, dictionary: packDictionary(dictionary) },
+    message => {
+      if (message.type === 'progress') onProgress?.(message.progress);
+      return message.type === 'result' ? message.result : undefined;
+    }
+  );
+}
+
+/**
+ * Search every layout in a Web Worker - finds a solution or proves there is none
+ * @param letters - Letters to solve, usually the full hand with positions cleared
+ */
+export function solveExactInWorker(
+  letters: Letter[],
+  options: WorkerSolveOptions<ExactSolveProgress> = {}
+): SolveJob<ExactSolveResult> {
+  const {
+    timeoutMs = DEFAULT_EXACT_TIMEOUT_MS,
+    dictionary = getActiveDictionary(),
+    gridSize = DEFAULT_GRID_SIZE,
+    onProgress,
+  } = options;
+
+  if (typeof Worker === 'undefined') {
+    return runInline(() => solveExact(letters, { timeoutMs, dictionary, gridSize }));
+  }
+
+  return runInWorker(
+    { type: 'solveExact', letters, timeoutMs, gridSize, dictionary: packDictionary(dictionary) },
+    message => {
+      if (message.type === 'exactProgress') onProgress?.(message.progress);
+      return message.type === 'exactResult' ? message.result : undefined;
+    }
+  );
+}
+
+/**
+ * List every solution for a roll in a Web Worker, streaming them as they're found
+ * @param letters - Letters to solve, usually the full hand with positions cleared
+ */
+export function enumerateSolutionsInWorker(
+  letters: Letter[],
+  options: WorkerEnumerateOptions = {}
+): SolveJob<EnumerateResult> {
+  const {
+    timeoutMs = DEFAULT_EXACT_TIMEOUT_MS,
+    dictionary = getActiveDictionary(),
+    gridSize = DEFAULT_GRID_SIZE,
+    dedupeTransposes = true,
+    maxSolutions = DEFAULT_MAX_SOLUTIONS,
+    onProgress,
+    onSolution,
+  } = options;
+
+  if (typeof Worker === 'undefined') {
+    return runInline(() =>
+      enumerateSolutions(letters, { timeoutMs, dictionary, gridSize, dedupeTransposes, maxSolutions, onSolution })
+    );
+  }
+
+  const solutions: Placement[][] = [];
+  return runInWorker(
+    {
+      type: 'enumerate',
+      letters,
+      timeoutMs,
+      gridSize,
+      dictionary: packDictionary(dictionary),
+      dedupeTransposes,
+      maxSolutions,
+    },
+    message => {
+      if (message.type === 'exactProgress') onProgress?.(message.progress);
+      if (message.type === 'solution') {
+        solutions.push(message.solution);
+        onSolution?.(message.solution, solutions.length);
+      }
+      return message.type === 'enumerateResult' ? { ...message.result, solutions } : undefined;
+    }
+  );
+}
+
+/**
+ * Deal a free-play roll with a known solution, checked in a Web Worker
+ * @param options.seed - Seed for the first roll; defaults to a random one
+ * @param options.budgetMs - Time to spend checking rolls before dealing from the verified pool
+ * @param options.difficulty - Deal a roll rated in this band
+ * @param options.handSize - Letters to deal (see HAND_SIZES)
+ * @param options.gridSize - Board the solution has to fit on
+ */
+export function dealInWorker(
+  options: {
+    seed?: number;
+    budgetMs?: number;
+    difficulty?: Difficulty;
+    dictionary?: Dictionary;
+    handSize?: number;
+    gridSize?: number;
+  } = {}
+): SolveJob<DealResult> {
+  const {
+    seed = randomSeed(),
+    budgetMs,
+    difficulty,
+    dictionary = getActiveDictionary(),
+    handSize = DEFAULT_HAND_SIZE,
+    gridSize = DEFAULT_GRID_SIZE,
+  } = options;
+
+  if (typeof Worker === 'undefined') {
+    return runInline(() => dealSolvable(seed, { budgetMs, difficulty, dictionary, handSize, gridSize }));
+  }
+
+  return runInWorker(
+    { type: 'deal', seed, budgetMs, difficulty, handSize, gridSize, dictionary: packDictionary(dictionary) },
+    message => (message.type === 'dealResult' ? message.result : undefined)
+  );
+}
+
+/**
+ * Deal the daily puzzle for a date in a Web Worker (see dealDaily)
+ * @param date - Date key, YYYY-MM-DD
+ */
+export function dealDailyInWorker(date: string, dictionary: Dictionary): SolveJob<DealResult> {
+  if (typeof Worker === 'undefined') {
+    return runInline(() => dealDaily(date, dictionary));
+  }
+
+  return runInWorker(
+    { type: 'daily', date, dictionary: packDictionary(dictionary) },
+    message => (message.type === 'dealResult' ? message.result : undefined)
+  );
+}
+
+/**
+ * Rate a roll's difficulty in a Web Worker
+ * @param letters - The hand; positions are ignored
+ */
+export function rateInWorker(letters: Letter[], options: RateOptions = {}): SolveJob<DifficultyRating> {
+  const {
+    timeoutMs,
+    dictionary = getActiveDictionary(),
+    gridSize = DEFAULT_GRID_SIZE,
+  } = options;
+
+  if (typeof Worker === 'undefined') {
+    return runInline(() => rateRoll(letters, { timeoutMs, dictionary, gridSize }));
+  }
+
+  return runInWorker(
+    { type: 'rate', letters, timeoutMs, gridSize, dictionary: packDictionary(dictionary) },
+    message => (message.type === 'rateResult' ? message.result : undefined)
+  );
+}
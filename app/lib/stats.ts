@@ -1,8 +1,39 @@
 // Q-Less Game Statistics
 
+import { type PlayMode, DEFAULT_HAND_SIZE } from './gameState';
+
 const STATS_KEY = 'qless-stats';
 const SESSION_KEY = 'qless-session';
 
+// Oldest wins are dropped past this many
+const MAX_WIN_HISTORY = 500;
+
+export interface WinRecord {
+  wonAt: number; // Timestamp
+  time: number; // Seconds
+  lexicon: string; // Name of the word list the win was played under
+}
+
+// Games with a different number of letters aren't comparable, so each hand size keeps its own record
+export interface HandSizeStats {
+  gamesPlayed: number;
+  gamesWon: number;
+  bestTime: number | null;
+}
+
+// Timed games are kept apart from the untimed records, and each time limit from the others
+export interface CountdownStats {
+  gamesPlayed: number;
+  gamesWon: number; // Beat the clock
+  bestTime: number | null;
+}
+
+export interface BlitzStats {
+  sessions: number;
+  boardsSolved: number;
+  bestSession: number; // Most boards solved in one session
+}
+
 export interface GameStats {
   gamesPlayed: number;
   gamesWon: number;
@@ -11,11 +42,19 @@ export interface GameStats {
   totalLettersPlaced: number;
   hintsUsed: number;
   solvesUsed: number;
+  rerollsUsed: number; // Dice re-rolled for a time penalty
+  concedes: number; // Classic boards given up as unsolvable
+  correctConcedes: number; // ...that the solver confirmed have no solution
   currentStreak: number;
   bestStreak: number;
   perfectGames: number; // Won without hints
   milestones: string[];
   totalPlayTime: number;
+  winHistory: WinRecord[];
+  byHandSize: Record<number, HandSizeStats>; // Keyed by letters dealt
+  highScores: Partial<Record<PlayMode, number>>; // Best score won in each mode
+  countdown: Record<number, CountdownStats>; // Keyed by time limit in seconds
+  blitz: Record<number, BlitzStats>; // Keyed by time limit in seconds
 }
 
 const DEFAULT_STATS: GameStats = {
@@ -26,11 +65,37 @@ const DEFAULT_STATS: GameStats = {
   totalLettersPlaced: 0,
   hintsUsed: 0,
   solvesUsed: 0,
+  rerollsUsed: 0,
+  concedes: 0,
+  correctConcedes: 0,
   currentStreak: 0,
   bestStreak: 0,
   perfectGames: 0,
   milestones: [],
   totalPlayTime: 0,
+  winHistory: [],
+  byHandSize: {},
+  highScores: {},
+  countdown: {},
+  blitz: {},
+};
+
+const EMPTY_HAND_SIZE_STATS: HandSizeStats = {
+  gamesPlayed: 0,
+  gamesWon: 0,
+  bestTime: null,
+};
+
+const EMPTY_COUNTDOWN_STATS: CountdownStats = {
+  gamesPlayed: 0,
+  gamesWon: 0,
+  bestTime: null,
+};
+
+const EMPTY_BLITZ_STATS: BlitzStats = {
+  sessions: 0,
+  boardsSolved: 0,
+  bestSession: 0,
 };
 
 const MILESTONES = {
@@ -68,17 +133,32 @@ function saveStats(stats: GameStats): void {
   }
 }
 
-export function trackGameStarted(): { stats: GameStats } {
+// Apply a change to one hand size's record
+function updateHandSize(
+  stats: GameStats,
+  handSize: number,
+  update: (record: HandSizeStats) => HandSizeStats
+): Record<number, HandSizeStats> {
+  return { ...stats.byHandSize, [handSize]: update(stats.byHandSize[handSize] ?? EMPTY_HAND_SIZE_STATS) };
+}
+
+export function trackGameStarted(handSize: number = DEFAULT_HAND_SIZE): { stats: GameStats } {
   const stats = loadStats();
   const updated: GameStats = {
     ...stats,
     gamesPlayed: stats.gamesPlayed + 1,
+    byHandSize: updateHandSize(stats, handSize, record => ({ ...record, gamesPlayed: record.gamesPlayed + 1 })),
   };
   saveStats(updated);
   return { stats: updated };
 }
 
-export function trackGameWon(time: number, usedHints: boolean): { stats: GameStats; newMilestones: string[] } {
+export function trackGameWon(
+  time: number,
+  usedHints: boolean,
+  lexicon: string,
+  handSize: number = DEFAULT_HAND_SIZE
+): { stats: GameStats; newMilestones: string[] } {
   const stats = loadStats();
   const newMilestones: string[] = [];
 
@@ -97,6 +177,12 @@ export function trackGameWon(time: number, usedHints: boolean): { stats: GameSta
     currentStreak: newStreak,
     bestStreak: Math.max(stats.bestStreak, newStreak),
     perfectGames: usedHints ? stats.perfectGames : stats.perfectGames + 1,
+    winHistory: [...stats.winHistory, { wonAt: Date.now(), time, lexicon }].slice(-MAX_WIN_HISTORY),
+    byHandSize: updateHandSize(stats, handSize, record => ({
+      ...record,
+      gamesWon: record.gamesWon + 1,
+      bestTime: record.bestTime === null ? time : Math.min(record.bestTime, time),
+    })),
   };
 
   // Check milestones
@@ -139,6 +225,68 @@ export function trackGameWon(time: number, usedHints: boolean): { stats: GameSta
   return { stats: updated, newMilestones };
 }
 
+// Keep a won game's score if it beats the best so far in its mode
+export function trackScore(mode: PlayMode, score: number): { stats: GameStats; isHighScore: boolean } {
+  const stats = loadStats();
+  const best = stats.highScores[mode];
+  if (best !== undefined && score <= best) return { stats, isHighScore: false };
+
+  const updated: GameStats = {
+    ...stats,
+    highScores: { ...stats.highScores, [mode]: score },
+  };
+  saveStats(updated);
+  return { stats: updated, isHighScore: true };
+}
+
+export function trackCountdownStarted(limit: number): GameStats {
+  const stats = loadStats();
+  const record = stats.countdown[limit] ?? EMPTY_COUNTDOWN_STATS;
+  const updated: GameStats = {
+    ...stats,
+    countdown: { ...stats.countdown, [limit]: { ...record, gamesPlayed: record.gamesPlayed + 1 } },
+  };
+  saveStats(updated);
+  return updated;
+}
+
+export function trackCountdownWon(limit: number, time: number): GameStats {
+  const stats = loadStats();
+  const record = stats.countdown[limit] ?? EMPTY_COUNTDOWN_STATS;
+  const updated: GameStats = {
+    ...stats,
+    countdown: {
+      ...stats.countdown,
+      [limit]: {
+        ...record,
+        gamesWon: record.gamesWon + 1,
+        bestTime: record.bestTime === null ? time : Math.min(record.bestTime, time),
+      },
+    },
+  };
+  saveStats(updated);
+  return updated;
+}
+
+// A Blitz session is recorded once its clock runs out
+export function trackBlitzSession(limit: number, boardsSolved: number): GameStats {
+  const stats = loadStats();
+  const record = stats.blitz[limit] ?? EMPTY_BLITZ_STATS;
+  const updated: GameStats = {
+    ...stats,
+    blitz: {
+      ...stats.blitz,
+      [limit]: {
+        sessions: record.sessions + 1,
+        boardsSolved: record.boardsSolved + boardsSolved,
+        bestSession: Math.max(record.bestSession, boardsSolved),
+      },
+    },
+  };
+  saveStats(updated);
+  return updated;
+}
+
 export function trackLetterPlaced(): GameStats {
   const stats = loadStats();
   const updated: GameStats = {
@@ -170,6 +318,32 @@ export function trackSolveUsed(): GameStats {
   return updated;
 }
 
+export function trackRerollUsed(): GameStats {
+  const stats = loadStats();
+  const updated: GameStats = {
+    ...stats,
+    rerollsUsed: stats.rerollsUsed + 1,
+  };
+  saveStats(updated);
+  return updated;
+}
+
+/**
+ * Record conceding a board as unsolvable
+ * @param correct - The solver proved there's no solution; conceding a solvable board ends the streak
+ */
+export function trackConcede(correct: boolean): GameStats {
+  const stats = loadStats();
+  const updated: GameStats = {
+    ...stats,
+    concedes: stats.concedes + 1,
+    correctConcedes: correct ? stats.correctConcedes + 1 : stats.correctConcedes,
+    currentStreak: correct ? stats.currentStreak : 0,
+  };
+  saveStats(updated);
+  return updated;
+}
+
 let sessionStart: number | null = null;
 
 export function startSessionTimer(): void {
@@ -196,6 +370,34 @@ export function endSession(): void {
   sessionStart = null;
 }
 
+// Count wins per word list, most played first
+export function getWinsByLexicon(stats: GameStats): { lexicon: string; wins: number }[] {
+  const counts = new Map<string, number>();
+  for (const win of stats.winHistory) {
+    counts.set(win.lexicon, (counts.get(win.lexicon) || 0) + 1);
+  }
+  return [...counts.entries()]
+    .map(([lexicon, wins]) => ({ lexicon, wins }))
+    .sort((a, b) => b.wins - a.wins);
+}
+
+// Records for each hand size played, smallest hand first
+export function getStatsByHandSize(stats: GameStats): ({ handSize: number } & HandSizeStats)[] {
+  return Object.entries(stats.byHandSize)
+    .map(([handSize, record]) => ({ handSize: Number(handSize), ...record }))
+    .sort((a, b) => a.handSize - b.handSize);
+}
+
+// Timed records for each limit played, shortest limit first
+export function getTimedStats(
+  stats: GameStats
+): { limit: number; countdown: CountdownStats | null; blitz: BlitzStats | null }[] {
+  const limits = new Set([...Object.keys(stats.countdown), ...Object.keys(stats.blitz)].map(Number));
+  return [...limits]
+    .sort((a, b) => a - b)
+    .map(limit => ({ limit, countdown: stats.countdown[limit] ?? null, blitz: stats.blitz[limit] ?? null }));
+}
+
 export function getMilestoneInfo(id: string): { name: string; description: string } | null {
   return MILESTONES[id as keyof typeof MILESTONES] || null;
 }
@@ -0,0 +1,64 @@
+// Q-Less Peer Transports
+// How peers in a network race reach each other. The race code only sees this interface, so
+// the same race runs over WebRTC between devices (webrtcTransport.ts) or in memory, where
+// every peer lives in one process (race.test.ts plays a race that way)
+
+export type TransportEvent<T> =
+  | { type: 'message'; from: string; message: T }
+  | { type: 'peer-joined'; peer: string } // Messages can now reach this peer
+  | { type: 'peer-left'; peer: string };
+
+export interface PeerTransport<T> {
+  readonly id: string; // This peer
+  /** Send to every connected peer (not back to this one) */
+  send(message: T): void;
+  /** Listen for messages and peers coming and going; returns a function that stops listening */
+  subscribe(listener: (event: TransportEvent<T>) => void): () => void;
+  close(): void;
+}
+
+export interface MemoryNetwork<T> {
+  connect(id: string): PeerTransport<T>;
+}
+
+/**
+ * Peers that all live in this process - messages are delivered on a microtask, so like a real
+ * network nothing arrives before send() returns
+ */
+export function createMemoryNetwork<T>(): MemoryNetwork<T> {
+  const listeners = new Map<string, Set<(event: TransportEvent<T>) => void>>();
+
+  const deliver = (to: string, event: TransportEvent<T>) => {
+    queueMicrotask(() => listeners.get(to)?.forEach(listener => listener(event)));
+  };
+
+  return {
+    connect(id: string): PeerTransport<T> {
+      if (listeners.has(id)) throw new Error(`Peer ${id} is already connected`);
+
+      // Both sides hear about each other, as when a data channel opens
+      for (const peer of listeners.keys()) {
+        deliver(peer, { type: 'peer-joined', peer: id });
+        deliver(id, { type: 'peer-joined', peer });
+      }
+      listeners.set(id, new Set());
+
+      return {
+        id,
+        send: message => {
+          for (const peer of listeners.keys()) {
+            if (peer !== id) deliver(peer, { type: 'message', from: id, message });
+          }
+        },
+        subscribe: listener => {
+          listeners.get(id)?.add(listener);
+          return () => listeners.get(id)?.delete(listener);
+        },
+        close: () => {
+          if (!listeners.delete(id)) return;
+          for (const peer of listeners.keys()) deliver(peer, { type: 'peer-left', peer: id });
+        },
+      };
+    },
+  };
+}
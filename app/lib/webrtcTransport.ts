@@ -0,0 +1,184 @@
+// Q-Less WebRTC Transport
+// Peers on different devices talk over WebRTC data channels, each peer connected directly to
+// every other. A signaling server (scripts/signaling-server.ts) introduces them; after that it
+// only hears about peers leaving.
+//
+// Signaling protocol, relayed through the server:
+//   server -> peer   { type: 'peers', peers }          (on joining; the newcomer offers to each)
+//   peer -> peer     { type: 'signal', from, data: { description } | { candidate } }
+//   server -> peer   { type: 'left', peer }            (their signaling stream closed)
+//
+// A peer's stream to the server can drop and reconnect while its data channels carry on, so
+// 'left' only abandons connections still being set up; an open channel is trusted until it
+// closes itself
+
+import type { PeerTransport, TransportEvent } from './transport';
+import { randomSeed } from './random';
+
+const CHANNEL_LABEL = 'qless';
+
+export interface WebRtcOptions {
+  signalingUrl: string; // e.g. http://192.168.1.20:8787
+  room: string; // Peers only meet others in the same room
+  id?: string;
+  iceServers?: RTCIceServer[]; // None are needed for devices on the same network
+}
+
+type SignalData = { description: RTCSessionDescriptionInit } | { candidate: RTCIceCandidateInit };
+
+type ServerEvent =
+  | { type: 'peers'; peers: string[] }
+  | { type: 'signal'; from: string; data: SignalData }
+  | { type: 'left'; peer: string };
+
+interface PeerLink {
+  connection: RTCPeerConnection;
+  channel: RTCDataChannel | null;
+  pending: RTCIceCandidateInit[]; // Candidates that beat the description here
+  signals: Promise<void>; // Handles this peer's signals one at a time, in order
+}
+
+/**
+ * Join a room on the signaling server
+ * @returns The transport once the server has answered; rejects if it can't be reached
+ */
+export function connectWebRtc<T>({
+  signalingUrl,
+  room,
+  id = randomSeed().toString(36),
+  iceServers = [],
+}: WebRtcOptions): Promise<PeerTransport<T>> {
+  const base = `${signalingUrl.replace(/\/+$/, '')}/rooms/${encodeURIComponent(room)}`;
+  const links = new Map<string, PeerLink>();
+  const listeners = new Set<(event: TransportEvent<T>) => void>();
+  const emit = (event: TransportEvent<T>) => listeners.forEach(listener => listener(event));
+
+  const signal = (to: string, data: SignalData) => {
+    fetch(`${base}/signal`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ from: id, to, data }),
+    }).catch(() => {
+      // Ignore errors - the connection just never opens
+    });
+  };
+
+  const dropPeer = (peer: string) => {
+    const link = links.get(peer);
+    if (!link) return;
+    links.delete(peer);
+    link.connection.close();
+    if (link.channel?.readyState === 'open' || link.channel?.readyState === 'closing') {
+      emit({ type: 'peer-left', peer });
+    }
+  };
+
+  const openLink = (peer: string, isOfferer: boolean): PeerLink => {
+    const connection = new RTCPeerConnection({ iceServers });
+    const link: PeerLink = { connection, channel: null, pending: [], signals: Promise.resolve() };
+    links.set(peer, link);
+
+    const attach = (channel: RTCDataChannel) => {
+      link.channel = channel;
+      channel.onopen = () => emit({ type: 'peer-joined', peer });
+      channel.onclose = () => dropPeer(peer);
+      channel.onmessage = (event: MessageEvent<string>) => {
+        try {
+          emit({ type: 'message', from: peer, message: JSON.parse(event.data) });
+        } catch {
+          // Ignore malformed messages
+        }
+      };
+    };
+
+    connection.onicecandidate = event => {
+      if (event.candidate) signal(peer, { candidate: event.candidate.toJSON() });
+    };
+    connection.onconnectionstatechange = () => {
+      if (connection.connectionState === 'failed') dropPeer(peer);
+    };
+
+    if (isOfferer) {
+      attach(connection.createDataChannel(CHANNEL_LABEL));
+      link.signals = connection
+        .setLocalDescription()
+        .then(() => signal(peer, { description: connection.localDescription!.toJSON() }))
+        .catch(() => dropPeer(peer));
+    } else {
+      connection.ondatachannel = event => attach(event.channel);
+    }
+    return link;
+  };
+
+  const handleSignal = async (link: PeerLink, from: string, data: SignalData) => {
+    const { connection } = link;
+    if ('candidate' in data) {
+      if (connection.remoteDescription) await connection.addIceCandidate(data.candidate);
+      else link.pending.push(data.candidate);
+      return;
+    }
+
+    await connection.setRemoteDescription(data.description);
+    for (const candidate of link.pending.splice(0)) await connection.addIceCandidate(candidate);
+    if (data.description.type === 'offer') {
+      await connection.setLocalDescription();
+      signal(from, { description: connection.localDescription!.toJSON() });
+    }
+  };
+
+  return new Promise((resolve, reject) => {
+    const events = new EventSource(`${base}?peer=${encodeURIComponent(id)}`);
+    let isOpen = false;
+
+    const transport: PeerTransport<T> = {
+      id,
+      send: message => {
+        const data = JSON.stringify(message);
+        links.forEach(link => {
+          if (link.channel?.readyState === 'open') link.channel.send(data);
+        });
+      },
+      subscribe: listener => {
+        listeners.add(listener);
+        return () => listeners.delete(listener);
+      },
+      close: () => {
+        events.close();
+        [...links.keys()].forEach(dropPeer);
+        listeners.clear();
+      },
+    };
+
+    events.onmessage = (event: MessageEvent<string>) => {
+      let data: ServerEvent;
+      try {
+        data = JSON.parse(event.data);
+      } catch {
+        return;
+      }
+
+      if (data.type === 'peers') {
+        // The event stream reconnects by itself; peers already linked are left alone
+        data.peers.filter(peer => !links.has(peer)).forEach(peer => openLink(peer, true));
+        if (!isOpen) {
+          isOpen = true;
+          resolve(transport);
+        }
+      } else if (data.type === 'signal') {
+        const { from, data: signalData } = data;
+        const link = links.get(from) ?? openLink(from, false);
+        link.signals = link.signals
+          .then(() => handleSignal(link, from, signalData))
+          .catch(() => dropPeer(from));
+      } else if (data.type === 'left') {
+        if (links.get(data.peer)?.channel?.readyState !== 'open') dropPeer(data.peer);
+      }
+    };
+
+    events.onerror = () => {
+      if (isOpen) return;
+      events.close();
+      reject(new Error(`Couldn't reach the signaling server at ${signalingUrl}`));
+    };
+  });
+}
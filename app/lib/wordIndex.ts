@@ -0,0 +1,329 @@
+// Q-Less Word Index - Packed DAWG
+//
+// The lexicon is stored as a minimized prefix tree (a DAWG: shared suffixes are merged too)
+// packed into one Uint32Array. Each node is a run of consecutive edges; each edge is one uint32:
+//
+//   bits 0-4   letter (a = 0 ... z = 25)
+//   bit  5     END  - a word ends after following this edge
+//   bit  6     LAST - last edge of its node
+//   bits 7-31  index of the child node's first edge (0 = no children)
+//
+// The root node starts at index 0, which is why 0 can double as "no children".
+// Walking the graph with a letter budget gives subset enumeration in time proportional to
+// the words actually reachable, instead of scanning the whole list.
+
+const LETTER_MASK = 0x1f;
+const END_FLAG = 1 << 5;
+const LAST_FLAG = 1 << 6;
+const CHILD_SHIFT = 7;
+const ALPHABET_SIZE = 26;
+const CHAR_CODE_A = 97;
+
+export interface WordIndex {
+  readonly edges: Uint32Array;
+  readonly wordCount: number;
+  readonly minLength: number;
+  readonly maxLength: number;
+  has(word: string): boolean;
+  /** True if some word starts with the prefix (a whole word counts) */
+  hasPrefix(prefix: string): boolean;
+  /** Every word spellable from a multiset of lowercase letters */
+  wordsFromLetters(available: Map<string, number>, minLength?: number, maxLength?: number): string[];
+  /** True if at least one word of minLength or more is spellable from the letters */
+  canFormAny(available: Map<string, number>, minLength?: number): boolean;
+  /**
+   * Words matching a fixed-length pattern, '?' being any letter, e.g. 'a?e'
+   * @param available - Optional multiset the '?' positions must be filled from
+   */
+  match(pattern: string, available?: Map<string, number>): string[];
+}
+
+interface BuildNode {
+  end: boolean;
+  children: Map<number, BuildNode>;
+  id: number; // Assigned during minimization
+}
+
+function letterIndex(char: string): number {
+  return char.charCodeAt(0) - CHAR_CODE_A;
+}
+
+function isIndexable(word: string): boolean {
+  return /^[a-z]+$/.test(word);
+}
+
+/**
+ * Pack a word list into DAWG edges
+ * @param words - Lowercase a-z words; anything else is skipped
+ */
+export function buildDawgEdges(words: Iterable<string>): { edges: Uint32Array; wordCount: number } {
+  const root: BuildNode = { end: false, children: new Map(), id: -1 };
+  let wordCount = 0;
+
+  for (const word of words) {
+    if (!isIndexable(word)) continue;
+    let node = root;
+    for (const char of word) {
+      const letter = letterIndex(char);
+      let child = node.children.get(letter);
+      if (!child) {
+        child = { end: false, children: new Map(), id: -1 };
+        node.children.set(letter, child);
+      }
+      node = child;
+    }
+    if (!node.end) {
+      node.end = true;
+      wordCount++;
+    }
+  }
+
+  // Minimize: nodes with the same ending flag and the same children collapse into one
+  const registry = new Map<string, BuildNode>();
+  const unique: BuildNode[] = [];
+  const minimize = (node: BuildNode): BuildNode => {
+    const keys: string[] = [node.end ? '1' : '0'];
+    for (const letter of [...node.children.keys()].sort((a, b) => a - b)) {
+      const child = minimize(node.children.get(letter)!);
+      node.children.set(letter, child);
+      keys.push(`${letter}:${child.id}`);
+    }
+    const signature = keys.join(',');
+    const existing = registry.get(signature);
+    if (existing) return existing;
+    node.id = unique.length;
+    unique.push(node);
+    registry.set(signature, node);
+    return node;
+  };
+  minimize(root);
+
+  // Lay out edge runs, root first so it sits at index 0
+  const start = new Map<BuildNode, number>();
+  let edgeCount = 0;
+  const ordered = [root, ...unique.filter(n => n !== root)];
+  for (const node of ordered) {
+    if (node.children.size === 0) continue;
+    start.set(node, edgeCount);
+    edgeCount += node.children.size;
+  }
+  // A root with no words still needs one slot so index 0 is addressable
+  const edges = new Uint32Array(Math.max(edgeCount, 1));
+
+  for (const node of ordered) {
+    const base = start.get(node);
+    if (base === undefined) continue;
+    const letters = [...node.children.keys()].sort((a, b) => a - b);
+    letters.forEach((letter, i) => {
+      const child = node.children.get(letter)!;
+      let edge = letter;
+      if (child.end) edge |= END_FLAG;
+      if (i === letters.length - 1) edge |= LAST_FLAG;
+      edge |= (start.get(child) ?? 0) << CHILD_SHIFT;
+      edges[base + i] = edge >>> 0;
+    });
+  }
+
+  return { edges, wordCount };
+}
+
+// ============ RAW WALKING ============
+// For searches that keep their own position in the graph rather than whole strings.
+// A node is the index of its first edge; the root is node 0.
+
+/**
+ * Find the edge for a letter among a node's edges
+ * @param letter - 0 for a ... 25 for z
+ * @returns Edge index, or -1 if no word continues with that letter
+ */
+export function findEdge(edges: Uint32Array, node: number, letter: number): number {
+  for (let i = node; ; i++) {
+    const edge = edges[i];
+    if ((edge & LETTER_MASK) === letter) return i;
+    if (edge & LAST_FLAG) return -1;
+  }
+}
+
+// Node reached by following an edge, or 0 if nothing continues past it
+export function childOf(edge: number): number {
+  return edge >>> CHILD_SHIFT;
+}
+
+// True if a word ends after following an edge
+export function endsWord(edge: number): boolean {
+  return (edge & END_FLAG) !== 0;
+}
+
+// True for the last edge of its node, so `for (i = node; ; i++)` walks can stop
+export function isLastEdge(edge: number): boolean {
+  return (edge & LAST_FLAG) !== 0;
+}
+
+// Letter an edge spells, 0 for a ... 25 for z
+export function letterOf(edge: number): number {
+  return edge & LETTER_MASK;
+}
+
+// Shortest and longest word below every node, memoized since DAWG nodes are shared
+function lengthRange(edges: Uint32Array): { min: number; max: number } {
+  const memo = new Map<number, { min: number; max: number }>();
+  const visit = (node: number): { min: number; max: number } => {
+    const cached = memo.get(node);
+    if (cached) return cached;
+    let min = Infinity;
+    let max = 0;
+    for (let i = node; ; i++) {
+      const edge = edges[i];
+      if (edge & END_FLAG) {
+        min = Math.min(min, 1);
+        max = Math.max(max, 1);
+      }
+      const child = childOf(edge);
+      if (child !== 0) {
+        const below = visit(child);
+        min = Math.min(min, below.min + 1);
+        max = Math.max(max, below.max + 1);
+      }
+      if (edge & LAST_FLAG) break;
+    }
+    const range = { min, max };
+    memo.set(node, range);
+    return range;
+  };
+  return visit(0);
+}
+
+function countsToArray(available: Map<string, number>): Int8Array {
+  const counts = new Int8Array(ALPHABET_SIZE);
+  for (const [char, count] of available) {
+    const letter = letterIndex(char);
+    if (letter >= 0 && letter < ALPHABET_SIZE) counts[letter] += count;
+  }
+  return counts;
+}
+
+/**
+ * Wrap packed DAWG edges with lookup and query operations
+ * @param edges - As produced by buildDawgEdges (or loaded from a packed asset)
+ * @param wordCount - Number of words stored
+ */
+export function createWordIndex(edges: Uint32Array, wordCount: number): WordIndex {
+  const isEmpty = wordCount === 0;
+  const range = isEmpty ? { min: 0, max: 0 } : lengthRange(edges);
+
+  // Walk a string from the root; returns the last edge taken, or -1 if the path doesn't exist
+  const walk = (text: string): number => {
+    if (isEmpty || text.length === 0) return -1;
+    let node = 0;
+    let edge = -1;
+    for (let i = 0; i < text.length; i++) {
+      if (i > 0) {
+        node = childOf(edges[edge]);
+        if (node === 0) return -1;
+      }
+      edge = findEdge(edges, node, letterIndex(text[i]));
+      if (edge === -1) return -1;
+    }
+    return edge;
+  };
+
+  const collect = (
+    counts: Int8Array,
+    minLength: number,
+    maxLength: number,
+    stopAtFirst: boolean
+  ): string[] => {
+    const results: string[] = [];
+    if (isEmpty) return results;
+    const prefix: string[] = [];
+
+    const visit = (node: number): boolean => {
+      for (let i = node; ; i++) {
+        const edge = edges[i];
+        const letter = edge & LETTER_MASK;
+        if (counts[letter] > 0) {
+          counts[letter]--;
+          prefix.push(String.fromCharCode(CHAR_CODE_A + letter));
+
+          if ((edge & END_FLAG) && prefix.length >= minLength) {
+            results.push(prefix.join(''));
+            if (stopAtFirst) {
+              prefix.pop();
+              counts[letter]++;
+              return true;
+            }
+          }
+          const child = childOf(edge);
+          const done = child !== 0 && prefix.length < maxLength && visit(child);
+
+          prefix.pop();
+          counts[letter]++;
+          if (done) return true;
+        }
+        if (edge & LAST_FLAG) return false;
+      }
+    };
+
+    visit(0);
+    return results;
+  };
+
+  return {
+    edges,
+    wordCount,
+    minLength: range.min,
+    maxLength: range.max,
+    has: (word) => {
+      const edge = walk(word.toLowerCase());
+      return edge !== -1 && (edges[edge] & END_FLAG) !== 0;
+    },
+    hasPrefix: (prefix) => walk(prefix.toLowerCase()) !== -1,
+    wordsFromLetters: (available, minLength = 1, maxLength = Infinity) =>
+      collect(countsToArray(available), minLength, maxLength, false),
+    canFormAny: (available, minLength = 3) =>
+      collect(countsToArray(available), minLength, Infinity, true).length > 0,
+    match: (pattern, available) => {
+      const results: string[] = [];
+      if (isEmpty || pattern.length === 0) return results;
+      const lower = pattern.toLowerCase();
+      const counts = available ? countsToArray(available) : null;
+      const prefix: string[] = [];
+
+      const visit = (node: number, depth: number) => {
+        const wanted = lower[depth];
+        for (let i = node; ; i++) {
+          const edge = edges[i];
+          const letter = edge & LETTER_MASK;
+          const isWildcard = wanted === '?';
+          const fits = isWildcard
+            ? !counts || counts[letter] > 0
+            : letter === letterIndex(wanted);
+
+          if (fits) {
+            if (isWildcard && counts) counts[letter]--;
+            prefix.push(String.fromCharCode(CHAR_CODE_A + letter));
+
+            if (depth === lower.length - 1) {
+              if (edge & END_FLAG) results.push(prefix.join(''));
+            } else if (childOf(edge) !== 0) {
+              visit(childOf(edge), depth + 1);
+            }
+
+            prefix.pop();
+            if (isWildcard && counts) counts[letter]++;
+          }
+          if (edge & LAST_FLAG) return;
+        }
+      };
+
+      visit(0, 0);
+      return results;
+    },
+  };
+}
+
+// Build an index straight from a word list
+export function buildWordIndex(words: Iterable<string>): WordIndex {
+  const { edges, wordCount } = buildDawgEdges(words);
+  return createWordIndex(edges, wordCount);
+}
@@ -0,0 +1,34 @@
+// Q-Less Zen Mode
+// No clock and no stats - just the board. In place of the pressure, the game points out
+// words still waiting in the tray
+
+import { type Dictionary, getActiveDictionary, letterCounts } from './dictionary';
+
+// Shortest word the board accepts
+const MIN_WORD_LENGTH = 3;
+
+// Enough to suggest a direction without solving the board for the player
+const MAX_TRAY_WORDS = 24;
+
+export interface TrayWordOptions {
+  dictionary?: Dictionary;
+  limit?: number;
+}
+
+/**
+ * Words that can be spelled from the letters still in the tray
+ * @param tray - The tray's letters, in any order and case
+ * @returns Longest words first, then alphabetical; uppercase like the board's words
+ */
+export function findTrayWords(
+  tray: string,
+  { dictionary = getActiveDictionary(), limit = MAX_TRAY_WORDS }: TrayWordOptions = {}
+): string[] {
+  if (tray.length < MIN_WORD_LENGTH) return [];
+
+  return dictionary.index
+    .wordsFromLetters(letterCounts(tray), MIN_WORD_LENGTH, tray.length)
+    .sort((a, b) => b.length - a.length || a.localeCompare(b))
+    .slice(0, limit)
+    .map(word => word.toUpperCase());
+}
@@ -1,5 +1,28 @@
+'use client';
+
+import { Suspense } from 'react';
+import { useSearchParams } from 'next/navigation';
 import Game from './components/Game';
 
+// Shared boards arrive as ?p=<puzzle code>; a head-to-head match's second tab as
+// ?match=<match code>&name=<player>
+function GameFromQuery() {
+  const searchParams = useSearchParams();
+  const puzzleCode = searchParams.get('p');
+  return (
+    <Game
+      key={puzzleCode ?? 'new'}
+      puzzleCode={puzzleCode}
+      matchCode={searchParams.get('match')}
+      matchName={searchParams.get('name')}
+    />
+  );
+}
+
 export default function Home() {
-  return <Game />;
+  return (
+    <Suspense>
+      <GameFromQuery />
+    </Suspense>
+  );
 }
@@ -1,9 +1,11 @@
-const CACHE_NAME = 'qless-v1';
+const CACHE_NAME = 'qless-v2';
 const STATIC_ASSETS = [
   '/',
   '/manifest.json',
   '/icons/icon-192.png',
   '/icons/icon-512.png',
+  '/lexicons/twl06.dawg.gz',
+  '/lexicons/nwl2018.dawg.gz',
 ];
 
 // Install - cache static assets
@@ -29,7 +31,15 @@ self.addEventListener('activate', (event) => {
 });
 
 // Fetch - network first, fallback to cache
+// Word lists only change with a new cache version, so they're served cache first
 self.addEventListener('fetch', (event) => {
+  if (new URL(event.request.url).pathname.startsWith('/lexicons/')) {
+    event.respondWith(
+      caches.match(event.request).then((cached) => cached || fetch(event.request))
+    );
+    return;
+  }
+
   event.respondWith(
     fetch(event.request)
       .then((response) => {
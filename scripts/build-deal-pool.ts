@@ -0,0 +1,44 @@
+// Build the fallback rolls in app/lib/dealPool.ts
+// Run after changing the dice or a built-in word list: npm run build:deal-pool
+
+import { readFileSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { gunzipSync } from 'node:zlib';
+import { BUILT_IN_DICTIONARIES, createDictionaryFromIndex } from '../app/lib/dictionary';
+import { createInitialState } from '../app/lib/gameState';
+import { decodeDawg } from '../app/lib/lexiconAsset';
+import { solveExact } from '../app/lib/exactSolver';
+import { createWordIndex } from '../app/lib/wordIndex';
+
+const ROOT = join(__dirname, '..');
+const OUTPUT = join(ROOT, 'app', 'lib', 'dealPool.ts');
+const POOL_SIZE = 100;
+const CHECK_TIMEOUT_MS = 2000;
+
+// Check against the same packed assets the app downloads
+const dictionaries = Object.values(BUILT_IN_DICTIONARIES).map(({ url, ...meta }) => {
+  const { edges, wordCount } = decodeDawg(gunzipSync(readFileSync(join(ROOT, 'public', url))));
+  return createDictionaryFromIndex(meta, createWordIndex(edges, wordCount));
+});
+
+const rolls: string[] = [];
+for (let seed = 1; rolls.length < POOL_SIZE; seed++) {
+  const { letters } = createInitialState(seed);
+  const solvable = dictionaries.every(dictionary =>
+    solveExact(letters, { timeoutMs: CHECK_TIMEOUT_MS, dictionary }).status === 'solved'
+  );
+  if (solvable) rolls.push(letters.map(l => l.char).join(''));
+}
+
+writeFileSync(OUTPUT, [
+  '// Q-Less Deal Pool',
+  '// Rolls with a known 12-letter solution in every built-in word list, dealt when the',
+  '// dealer runs out of time. Generated by scripts/build-deal-pool.ts - do not edit.',
+  '',
+  'export const VERIFIED_ROLLS: string[] = [',
+  ...rolls.map(roll => `  '${roll}',`),
+  '];',
+  '',
+].join('\n'));
+
+console.log(`${rolls.length} rolls verified against ${dictionaries.map(d => d.info.name).join(', ')}`);
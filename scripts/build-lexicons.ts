@@ -0,0 +1,41 @@
+// Build the packed word list assets served from /public/lexicons
+// Run after changing a source list: npm run build:lexicons
+
+import { readFileSync, writeFileSync, mkdirSync } from 'node:fs';
+import { join } from 'node:path';
+import { gzipSync } from 'node:zlib';
+import { buildDawgEdges } from '../app/lib/wordIndex';
+import { encodeDawg } from '../app/lib/lexiconAsset';
+
+const ROOT = join(__dirname, '..');
+const OUTPUT_DIR = join(ROOT, 'public', 'lexicons');
+
+interface LexiconSource {
+  id: string;
+  file: string;
+  keep: (word: string) => boolean;
+}
+
+// Word lengths the game can use; Q is left out of TWL06 as the game has no Q die
+const SOURCES: LexiconSource[] = [
+  { id: 'twl06', file: 'twl06.txt', keep: w => w.length >= 3 && w.length <= 10 && !w.includes('q') },
+  { id: 'nwl2018', file: 'nwl2018.txt', keep: w => w.length >= 3 && w.length <= 10 },
+];
+
+mkdirSync(OUTPUT_DIR, { recursive: true });
+
+for (const source of SOURCES) {
+  const words = readFileSync(join(ROOT, source.file), 'utf8')
+    .split(/\r?\n/)
+    .map(line => line.trim().toLowerCase())
+    .filter(word => word && source.keep(word));
+
+  const packed = encodeDawg(buildDawgEdges(words));
+  const compressed = gzipSync(packed, { level: 9 });
+  writeFileSync(join(OUTPUT_DIR, `${source.id}.dawg.gz`), compressed);
+
+  console.log(
+    `${source.id}: ${words.length} words, ${(packed.byteLength / 1024).toFixed(0)} KB packed, ` +
+    `${(compressed.byteLength / 1024).toFixed(0)} KB gzipped`
+  );
+}
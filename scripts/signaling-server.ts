@@ -0,0 +1,112 @@
+// Introduce peers for network races so they can open WebRTC connections to each other
+// Run on any machine on the LAN: npm run signaling (PORT to change the port from 8787)
+//
+// Only the connection handshake passes through here - once peers are connected, the race
+// itself goes directly between them. Built on plain HTTP so it needs nothing installed:
+//   GET  /rooms/<room>?peer=<id>   Server-sent events: the peers already in the room, then
+//                                   signals for this peer and peers leaving
+//   POST /rooms/<room>/signal      { from, to, data } - passed on to peer <to>
+
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import { networkInterfaces } from 'node:os';
+
+const PORT = Number(process.env.PORT) || 8787;
+const HEARTBEAT_MS = 15_000; // Keeps idle streams from being closed by proxies and browsers
+const MAX_BODY_BYTES = 64 * 1024; // An offer with its candidates is a few kilobytes
+
+// Room name -> peer id -> that peer's event stream
+const rooms = new Map<string, Map<string, ServerResponse>>();
+
+function sendEvent(stream: ServerResponse, data: unknown) {
+  stream.write(`data: ${JSON.stringify(data)}\n\n`);
+}
+
+function reply(res: ServerResponse, status: number, body = '') {
+  res.writeHead(status, { 'Content-Type': 'text/plain' }).end(body);
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    req.on('data', (chunk: Buffer) => {
+      body += chunk;
+      if (body.length > MAX_BODY_BYTES) reject(new Error('Body too large'));
+    });
+    req.on('end', () => resolve(body));
+    req.on('error', reject);
+  });
+}
+
+function join(room: string, peer: string, req: IncomingMessage, res: ServerResponse) {
+  const peers = rooms.get(room) ?? new Map<string, ServerResponse>();
+  // A peer reconnecting its stream can get here before the old one is noticed closing; the
+  // new stream replaces it (a refused EventSource would never retry)
+  peers.get(peer)?.end();
+  peers.delete(peer);
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  });
+  sendEvent(res, { type: 'peers', peers: [...peers.keys()] });
+  peers.set(peer, res);
+  rooms.set(room, peers);
+  console.log(`${peer} joined ${room} (${peers.size} in room)`);
+
+  const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), HEARTBEAT_MS);
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    if (peers.get(peer) !== res) return; // Already replaced by a reconnect
+    peers.delete(peer);
+    if (peers.size === 0) rooms.delete(room);
+    peers.forEach(stream => sendEvent(stream, { type: 'left', peer }));
+    console.log(`${peer} left ${room}`);
+  });
+}
+
+async function relay(room: string, req: IncomingMessage, res: ServerResponse) {
+  let signal: { from?: unknown; to?: unknown; data?: unknown };
+  try {
+    signal = JSON.parse(await readBody(req));
+  } catch {
+    return reply(res, 400, 'Expected a JSON signal');
+  }
+
+  const target = typeof signal.to === 'string' ? rooms.get(room)?.get(signal.to) : undefined;
+  if (!target || typeof signal.from !== 'string') return reply(res, 404, 'No such peer in this room');
+
+  sendEvent(target, { type: 'signal', from: signal.from, data: signal.data });
+  reply(res, 204);
+}
+
+const server = createServer((req, res) => {
+  // The game is served from another origin (or port), so allow it to call in
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  if (req.method === 'OPTIONS') return reply(res, 204);
+
+  const url = new URL(req.url ?? '/', 'http://localhost');
+  let parts: string[];
+  try {
+    parts = url.pathname.split('/').map(decodeURIComponent);
+  } catch {
+    return reply(res, 400, 'Malformed path');
+  }
+  const [, prefix, room, action] = parts;
+  const peer = url.searchParams.get('peer');
+
+  if (prefix !== 'rooms' || !room) return reply(res, 404, 'Not found');
+  if (req.method === 'GET' && !action && peer) return join(room, peer, req, res);
+  if (req.method === 'POST' && action === 'signal') return void relay(room, req, res);
+  reply(res, 404, 'Not found');
+});
+
+server.listen(PORT, () => {
+  const addresses = Object.values(networkInterfaces())
+    .flat()
+    .filter(address => address?.family === 'IPv4' && !address.internal)
+    .map(address => `http://${address?.address}:${PORT}`);
+  console.log(`Signaling server listening on port ${PORT}`);
+  addresses.forEach(address => console.log(`  ${address}`));
+});